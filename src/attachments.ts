@@ -0,0 +1,237 @@
+import { toBase64 } from './base64'
+import { ATTACHMENT_MAX_IMAGE_BYTES, ATTACHMENT_MAX_INLINE_BYTES } from './const'
+import { CastariAttachmentError } from './errors'
+import { type QueryPrompt } from './query-stream'
+
+/** Bytes, a `Blob`/`File`, or (in Node and Bun only) the path of a local file */
+export type AttachmentSource = Uint8Array | Blob | string
+
+/** A file sent with `sendMessage()`; `name` and `mimeType` are detected when omitted */
+export type Attachment =
+    | AttachmentSource
+    | {
+        data: AttachmentSource
+        name?: string
+        mimeType?: string
+    }
+
+/** An attachment read into memory, ready to be inlined or uploaded */
+export type ResolvedAttachment = {
+    name: string
+    mimeType: string
+    bytes: Uint8Array
+}
+
+/** Where an uploaded attachment ended up in the workspace */
+export type UploadedAttachment = Omit<ResolvedAttachment, 'bytes'> & {
+    path: string
+    size: number
+}
+
+type Base64Source = { type: 'base64'; media_type: string; data: string }
+
+type AttachmentBlock =
+    | { type: 'image'; source: Base64Source }
+    | { type: 'document'; source: Base64Source; title: string }
+    | { type: 'text'; text: string }
+
+// Image formats the API accepts as content blocks
+const INLINE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+const PDF_TYPE = 'application/pdf'
+
+const EXTENSION_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    pdf: PDF_TYPE,
+    txt: 'text/plain',
+    md: 'text/markdown',
+    csv: 'text/csv',
+    tsv: 'text/tab-separated-values',
+    html: 'text/html',
+    xml: 'application/xml',
+    json: 'application/json',
+    yaml: 'application/yaml',
+    yml: 'application/yaml',
+    zip: 'application/zip',
+    gz: 'application/gzip',
+    tar: 'application/x-tar',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    mp3: 'audio/mpeg',
+    mp4: 'video/mp4',
+}
+
+// Leading bytes of the formats that are inlined, which are trusted over names and Blob types
+const SIGNATURES: [type: string, bytes: (number | null)[]][] = [
+    ['image/png', [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+    ['image/jpeg', [0xff, 0xd8, 0xff]],
+    ['image/gif', [0x47, 0x49, 0x46, 0x38]],
+    // RIFF....WEBP
+    ['image/webp', [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50]],
+    ['application/pdf', [0x25, 0x50, 0x44, 0x46, 0x2d]],
+]
+
+// Bytes inspected to tell text from binary files
+const SNIFF_LENGTH = 8192
+
+function basename(path: string) {
+    return path.split(/[\\/]/).pop() || path
+}
+
+/**
+ * The MIME type of a file: from its leading bytes for images and PDFs, otherwise from the
+ * name's extension, falling back to `text/plain` for UTF-8 text and
+ * `application/octet-stream` for anything else.
+ */
+export function detectMimeType(bytes: Uint8Array, name?: string): string {
+    for (const [type, signature] of SIGNATURES) {
+        if (signature.every((byte, index) => byte === null || bytes[index] === byte)) return type
+    }
+    const extension = name?.includes('.') ? name.split('.').pop()!.toLowerCase() : undefined
+    if (extension && EXTENSION_TYPES[extension]) return EXTENSION_TYPES[extension]
+    try {
+        const sample = bytes.subarray(0, SNIFF_LENGTH)
+        // A multi-byte character cut off at the end of the sample is not a reason to give up
+        const text = new TextDecoder('utf-8', { fatal: true }).decode(sample, {
+            stream: bytes.length > SNIFF_LENGTH,
+        })
+        if (!text.includes('\0')) return 'text/plain'
+    } catch {
+        // Not UTF-8
+    }
+    return 'application/octet-stream'
+}
+
+/** Read an attachment into memory, checking its size before and after reading */
+export async function resolveAttachment(
+    attachment: Attachment,
+    index: number,
+    options: {
+        maxBytes: number
+        /** Reads local file paths; the browser client cannot */
+        readFile: (path: string, maxBytes: number) => Promise<Uint8Array>
+    },
+): Promise<ResolvedAttachment> {
+    const { data, name: givenName, mimeType: givenType } =
+        typeof attachment === 'object' && 'data' in attachment ? attachment : { data: attachment }
+
+    const name =
+        givenName ??
+        (typeof data === 'string'
+            ? basename(data)
+            : 'name' in data && typeof data.name === 'string' && data.name
+                ? data.name
+                : `attachment-${index + 1}`)
+    const tooLarge = (size: number) =>
+        new CastariAttachmentError(
+            `${name} is ${size} bytes, more than the ${options.maxBytes} bytes allowed per attachment`,
+            { code: 'attachment_too_large', fileName: name },
+        )
+
+    let bytes: Uint8Array
+    if (typeof data === 'string') {
+        bytes = await options.readFile(data, options.maxBytes).catch(err => {
+            if (err instanceof CastariAttachmentError) throw err
+            throw new CastariAttachmentError(
+                `Failed to read ${data}: ${err instanceof Error ? err.message : String(err)}`,
+                { code: 'attachment_unreadable', fileName: name },
+            )
+        })
+    } else if (data instanceof Uint8Array) {
+        bytes = data
+    } else {
+        if (data.size > options.maxBytes) throw tooLarge(data.size)
+        bytes = new Uint8Array(await data.arrayBuffer())
+    }
+    if (bytes.length > options.maxBytes) throw tooLarge(bytes.length)
+
+    const blobType = typeof data === 'object' && !(data instanceof Uint8Array) ? data.type : ''
+    const detected = detectMimeType(bytes, name)
+    // A Blob's own type is used when the bytes and name say nothing more specific
+    const mimeType =
+        givenType ?? (blobType && detected === 'application/octet-stream' ? blobType : detected)
+    return { name, mimeType, bytes }
+}
+
+/**
+ * Split attachments into those sent inline as content blocks (images and PDFs within the
+ * API's limits, up to `ATTACHMENT_MAX_INLINE_BYTES` per message) and those to upload.
+ */
+export function planAttachments(attachments: ResolvedAttachment[]) {
+    const inline: ResolvedAttachment[] = []
+    const uploads: ResolvedAttachment[] = []
+    let inlineBytes = 0
+    for (const attachment of attachments) {
+        const { mimeType, bytes } = attachment
+        const inlinable =
+            (INLINE_IMAGE_TYPES.includes(mimeType) && bytes.length <= ATTACHMENT_MAX_IMAGE_BYTES) ||
+            mimeType === PDF_TYPE
+        if (inlinable && inlineBytes + bytes.length <= ATTACHMENT_MAX_INLINE_BYTES) {
+            inline.push(attachment)
+            inlineBytes += bytes.length
+        } else {
+            uploads.push(attachment)
+        }
+    }
+    return { inline, uploads }
+}
+
+/** Workspace paths for uploads under `directory`, keeping names unique within a message */
+export function uploadPaths(uploads: ResolvedAttachment[], directory: string) {
+    const taken = new Set<string>()
+    return uploads.map(({ name }) => {
+        const cleaned = basename(name).replace(/[^\w.-]+/g, '_')
+        // `.` and `..` would point at the directory itself or its parent
+        const safeName = /^\.*$/.test(cleaned) ? 'attachment' : cleaned
+        let candidate = safeName
+        for (let copy = 2; taken.has(candidate); copy++) {
+            const dot = safeName.lastIndexOf('.')
+            candidate =
+                dot > 0
+                    ? `${safeName.slice(0, dot)}-${copy}${safeName.slice(dot)}`
+                    : `${safeName}-${copy}`
+        }
+        taken.add(candidate)
+        return `${directory}/${candidate}`
+    })
+}
+
+function formatSize(bytes: number) {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+/**
+ * The prompt for a message with attachments: inline attachments as image and document
+ * blocks, followed by the text with a list of the uploaded files appended.
+ */
+export function attachmentPrompt(
+    text: string,
+    inline: ResolvedAttachment[],
+    uploads: UploadedAttachment[],
+): QueryPrompt {
+    if (inline.length === 0 && uploads.length === 0) return text
+
+    const listing = uploads.map(
+        upload => `- ${upload.path} (${upload.mimeType}, ${formatSize(upload.size)})`,
+    )
+    const fullText = uploads.length
+        ? `${text}\n\nAttached files, uploaded to the workspace:\n${listing.join('\n')}`
+        : text
+    if (inline.length === 0) return fullText
+
+    const blocks: AttachmentBlock[] = inline.map(({ name, mimeType, bytes }) => {
+        const source: Base64Source = { type: 'base64', media_type: mimeType, data: toBase64(bytes) }
+        return mimeType === PDF_TYPE
+            ? { type: 'document', source, title: name }
+            : { type: 'image', source }
+    })
+    blocks.push({ type: 'text', text: fullText })
+    return blocks
+}
@@ -0,0 +1,113 @@
+// Shared-secret and signed-request auth for the agent server's HTTP endpoints.
+// Uses WebCrypto only, so the signing half also works in browsers.
+
+export const SECRET_HEADER = 'x-castari-secret'
+export const SIGNATURE_HEADER = 'x-castari-signature'
+export const TIMESTAMP_HEADER = 'x-castari-timestamp'
+
+/** Signed requests older (or newer) than this are rejected */
+export const SIGNATURE_MAX_SKEW_MS = 5 * 60 * 1000
+
+export type RequestAuthOptions = {
+    /** Shared secret configured on both the server and the client */
+    secret: string
+    /** Reject requests that present the bare secret instead of a signature */
+    requireSignature?: boolean
+}
+
+const encoder = new TextEncoder()
+
+/**
+ * A request's path and query as signed: the query parameters sorted by name, then value,
+ * so a signature can't be replayed against another endpoint or session
+ */
+export function signedTarget(pathAndQuery: string): string {
+    const { pathname, searchParams } = new URL(pathAndQuery, 'http://localhost')
+    const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0)
+    const params = [...searchParams].sort(
+        ([aKey, aValue], [bKey, bValue]) => compare(aKey, bKey) || compare(aValue, bValue),
+    )
+    const query = new URLSearchParams(params).toString()
+    return query ? `${pathname}?${query}` : pathname
+}
+
+/** Hex HMAC-SHA256 over `<timestamp>.<METHOD>.<path>[?<sorted query>].<body>` */
+export async function computeSignature(
+    secret: string,
+    timestamp: string,
+    method: string,
+    pathAndQuery: string,
+    body: string,
+): Promise<string> {
+    const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign'],
+    )
+    const signature = await crypto.subtle.sign(
+        'HMAC',
+        key,
+        encoder.encode(
+            `${timestamp}.${method.toUpperCase()}.${signedTarget(pathAndQuery)}.${body}`,
+        ),
+    )
+    return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Headers that authenticate a request; signed when `sign` is set, otherwise the bare secret.
+ * `pathAndQuery` is the path the agent server sees (e.g. `/config`), not a proxy's.
+ */
+export async function createAuthHeaders(
+    secret: string,
+    method: string,
+    pathAndQuery: string,
+    body: string,
+    sign: boolean,
+): Promise<Record<string, string>> {
+    if (!sign) return { [SECRET_HEADER]: secret }
+    const timestamp = String(Date.now())
+    return {
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: await computeSignature(secret, timestamp, method, pathAndQuery, body),
+    }
+}
+
+/** Compare secrets without leaking how much of them matched through timing */
+export function constantTimeEqual(a: string, b: string) {
+    if (a.length !== b.length) return false
+    let diff = 0
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+    }
+    return diff === 0
+}
+
+/** Check a request's auth headers against the server's secret */
+export async function verifyRequest(
+    req: Request,
+    body: string,
+    options: RequestAuthOptions,
+): Promise<boolean> {
+    const signature = req.headers.get(SIGNATURE_HEADER)
+    const timestamp = req.headers.get(TIMESTAMP_HEADER)
+    if (signature && timestamp) {
+        const age = Math.abs(Date.now() - Number(timestamp))
+        if (!Number.isFinite(age) || age > SIGNATURE_MAX_SKEW_MS) return false
+        const { pathname, search } = new URL(req.url)
+        const expected = await computeSignature(
+            options.secret,
+            timestamp,
+            req.method,
+            `${pathname}${search}`,
+            body,
+        )
+        return constantTimeEqual(signature, expected)
+    }
+
+    if (options.requireSignature) return false
+    const secret = req.headers.get(SECRET_HEADER)
+    return !!secret && constantTimeEqual(secret, options.secret)
+}
@@ -0,0 +1,1163 @@
+import type { PermissionMode } from '@anthropic-ai/claude-agent-sdk'
+
+import {
+    attachmentPrompt,
+    planAttachments,
+    resolveAttachment,
+    uploadPaths,
+    type Attachment,
+    type UploadedAttachment,
+} from './attachments'
+import { toBase64 } from './base64'
+import { ATTACHMENT_MAX_BYTES, ATTACHMENT_UPLOAD_DIR } from './const'
+import {
+    CastariAttachmentError,
+    CastariFileError,
+    CastariProtocolError,
+    CastariRequestError,
+} from './errors'
+import { createLogger, redactingLogger, type Logger } from './logger'
+import { INPUT_CAPABILITIES, PROTOCOL_VERSION, parseOutputMessage } from './protocol'
+import {
+    QueryStream,
+    type QueryOptions,
+    type QueryPrompt,
+} from './query-stream'
+import {
+    downloadStream,
+    uploadStream,
+    type DownloadOptions,
+    type TransferEvent,
+    type TransferResult,
+    type UploadOptions,
+} from './transfer-client'
+import type {
+    Checkpoint,
+    CheckpointFileDiff,
+    ClientToolDefinition,
+    ClientToolResult,
+    FileChange,
+    FileEntry,
+    FileOperation,
+    ListFilesOptions,
+    PermissionDecision,
+    PermissionRequest,
+    QueryConfig,
+    QueryConfigUpdate,
+    QueuedMessageSummary,
+    SessionTicket,
+    StatusSnapshot,
+    TranscriptEntry,
+    WatchFilesOptions,
+    WSInputMessage,
+    WSOutputMessage,
+} from './types'
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000
+const DEFAULT_RECONNECT_ATTEMPTS = 10
+const DEFAULT_RECONNECT_INITIAL_DELAY_MS = 500
+const DEFAULT_RECONNECT_MAX_DELAY_MS = 15_000
+
+// File operations fail with the more specific CastariFileError, which also carries the path
+function requestError(
+    message: string,
+    details: {
+        code: CastariRequestError['code']
+        operation: RequestMessage['type']
+        path?: string
+        requestId?: string
+    },
+): CastariRequestError {
+    const { operation } = details
+    return FILE_OPERATIONS.includes(operation)
+        ? new CastariFileError(message, { ...details, operation: operation as FileOperation })
+        : new CastariRequestError(message, details)
+}
+
+/**
+ * Options for a client that connects with a `SessionTicket`. Everything here is safe to use
+ * in a browser: no API keys, and no Node APIs.
+ */
+export type BrowserClientOptions = {
+    /** Log connection details and every message at debug level with the default logger */
+    debug?: boolean
+    /**
+     * Where client logs go. Defaults to `createLogger()` on the console; pass
+     * `createLogger({ format: 'json' })` or your own `Logger`. Secrets are always redacted.
+     */
+    logger?: Logger
+
+    /**
+     * Reconnect automatically when the socket drops unexpectedly, replaying messages missed
+     * in the meantime. Defaults to true; pass an object to tune the backoff.
+     */
+    reconnect?: boolean | ReconnectOptions
+
+    /**
+     * Handlers for the client tools the agent can call, e.g. to reach your own database.
+     * Their definitions must be part of the session's config (`clientTools` in `createSession()`);
+     * `CastariClient.start()` sends them for you.
+     */
+    tools?: ClientTool[]
+}
+
+/** A tool run by the client. The agent sees it as `mcp__castari-agent__<name>`. */
+export type ClientTool = ClientToolDefinition & {
+    /** Returns text or a full tool result; a thrown error is reported to the agent as one */
+    handler: (
+        input: Record<string, unknown>,
+    ) => string | ClientToolResult | Promise<string | ClientToolResult>
+}
+
+export type ReconnectOptions = {
+    /** Attempts before giving up and firing `onClose`. Defaults to 10. */
+    maxAttempts?: number
+    /** Delay before the first attempt; doubles on each retry. Defaults to 500ms. */
+    initialDelayMs?: number
+    /** Upper bound for the backoff delay. Defaults to 15s. */
+    maxDelayMs?: number
+}
+
+/** Decides a tool use forwarded by the server; may be async (e.g. waiting on a human) */
+export type PermissionHandler = (
+    request: PermissionRequest,
+) => PermissionDecision | Promise<PermissionDecision>
+
+/** Input messages answered by a reply (or `error`) carrying the same `requestId` */
+type RequestMessage = Extract<
+    WSInputMessage,
+    {
+        type:
+            | FileOperation
+            | 'get_status'
+            | 'get_transcript'
+            | 'list_queue'
+            | 'cancel_message'
+            | 'clear_queue'
+            | 'set_model'
+            | 'set_permission_mode'
+            | 'update_config'
+            | 'list_checkpoints'
+            | 'diff_checkpoint'
+            | 'restore_checkpoint'
+    }
+>
+
+const FILE_OPERATIONS: readonly string[] = ['create_file', 'read_file', 'delete_file', 'list_files']
+
+type PendingRequest = {
+    operation: RequestMessage['type']
+    path?: string
+    resolve: (message: WSOutputMessage) => void
+    reject: (error: Error) => void
+    timer: ReturnType<typeof setTimeout>
+}
+
+export type SendMessageOptions = QueryOptions & {
+    /** Files to send with the message */
+    attachments?: Attachment[]
+    /** Workspace directory that attachments which are not inlined are uploaded under. Defaults to `uploads`. */
+    uploadDirectory?: string
+    /** Largest attachment accepted, in bytes. Defaults to 100 MiB. */
+    maxAttachmentBytes?: number
+    /** Called with each upload's progress */
+    onUploadProgress?: UploadOptions['onProgress']
+}
+
+/** Per-call options for the promise-based file API */
+export type FileRequestOptions = {
+    /** Milliseconds to wait for the server's reply. Defaults to 30s. */
+    timeoutMs?: number
+}
+
+/**
+ * A session's WebSocket client: queries, files, transfers and the rest of the protocol.
+ * This class only connects with a `SessionTicket` and never touches `process` or Node APIs;
+ * the `CastariClient` exported from `@castari/sdk/client` adds `start()` on top of it.
+ */
+export class CastariClient {
+    private ws?: WebSocket
+    protected readonly options: BrowserClientOptions
+    private messageHandlers: ((message: WSOutputMessage) => void)[] = []
+    private closeHandlers: ((code: number, reason: string) => void)[] = []
+    private reconnectingHandlers: ((attempt: number, delayMs: number) => void)[] = []
+    private reconnectedHandlers: (() => void)[] = []
+    private protocolErrorHandlers: ((error: CastariProtocolError) => void)[] = []
+    private pendingRequests = new Map<string, PendingRequest>()
+    private permissionHandler?: PermissionHandler
+    private transferListeners = new Map<string, (event: TransferEvent) => void>()
+    private watchHandlers = new Map<
+        string,
+        { onChange: (changes: FileChange[]) => void; onStopped?: (error: CastariFileError) => void }
+    >()
+    private connection?: Pick<SessionTicket, 'wsUrl' | 'reconnectUrl' | 'authHeaders' | 'authParams'>
+    private sessionId?: string
+    private reconnectToken?: string
+    private lastSeq = 0
+    // Announced by the server in `connected`
+    private capabilities: string[] = []
+    private stopping = false
+    // query() streams by message ID, and the one whose turn the agent is running
+    private queryStreams = new Map<string, QueryStream>()
+    private activeQuery?: QueryStream
+    protected readonly logger: Logger
+
+    constructor(options: BrowserClientOptions = {}) {
+        this.options = {
+            ...options,
+        }
+        this.logger = options.logger
+            ? redactingLogger(options.logger)
+            : createLogger({ level: options.debug ? 'debug' : 'info' })
+    }
+
+    /** ID of the server-side session this client is connected to */
+    getSessionId(): string | undefined {
+        return this.sessionId
+    }
+
+    /** Check if the WebSocket is currently connected */
+    isConnected(): boolean {
+        return this.ws?.readyState === WebSocket.OPEN
+    }
+
+    /**
+     * Open the session's WebSocket with a ticket minted server-side by `createSession()`.
+     * Tickets are single-use and expire after a few minutes.
+     */
+    async connect(ticket: SessionTicket) {
+        if (ticket.expiresAt !== undefined && Date.now() > ticket.expiresAt) {
+            throw new Error('Session ticket has expired')
+        }
+        this.connection = {
+            wsUrl: ticket.wsUrl,
+            reconnectUrl: ticket.reconnectUrl,
+            authHeaders: ticket.authHeaders,
+            authParams: ticket.authParams,
+        }
+        this.sessionId = ticket.sessionId
+        this.reconnectToken = ticket.reconnectToken
+        this.lastSeq = 0
+        this.stopping = false
+
+        await this.openSocket(ticket.connectionToken)
+    }
+
+    private openSocket(connectionToken: string, lastSeq?: number) {
+        const connection = this.connection
+        if (!connection) {
+            return Promise.reject(new Error('Client has not been connected'))
+        }
+
+        const wsUrlParams = new URLSearchParams()
+        wsUrlParams.set('token', connectionToken)
+        if (lastSeq !== undefined) {
+            wsUrlParams.set('lastSeq', String(lastSeq))
+        }
+        // Add any auth params from platform (for sandbox proxy auth)
+        if (connection.authParams) {
+            for (const [key, value] of Object.entries(connection.authParams)) {
+                wsUrlParams.set(key, value)
+            }
+        }
+
+        const wsUrlJoiner = connection.wsUrl.includes('?') ? '&' : '?'
+        const wsUrl = `${connection.wsUrl}${wsUrlJoiner}${wsUrlParams.toString()}`
+
+        this.logger.debug('Connecting to WebSocket', { wsUrl })
+
+        return new Promise<void>((resolve, reject) => {
+            const ws = new WebSocket(wsUrl)
+            this.ws = ws
+            let opened = false
+
+            ws.onopen = () => {
+                this.logger.debug('WebSocket open, waiting for the server handshake')
+            }
+
+            ws.onmessage = event => {
+                const data = event.data.toString()
+                // The first message is `connected`; the connection is usable once it checks out
+                if (!opened) {
+                    const error = this.checkHandshake(data)
+                    if (error) {
+                        this.ws = undefined
+                        ws.onclose = null
+                        ws.close(1000, 'Incompatible protocol')
+                        reject(error)
+                        return
+                    }
+                    opened = true
+                    this.logger.debug('Connected to Castari server', { capabilities: this.capabilities })
+                    resolve()
+                }
+
+                const parsed = parseOutputMessage(data)
+                if (!parsed.ok) {
+                    this.handleProtocolError(
+                        new CastariProtocolError(parsed.error, {
+                            code: parsed.code,
+                            messageType: parsed.messageType,
+                        }),
+                        parsed.requestId,
+                    )
+                    return
+                }
+                const message = parsed.message
+                if (message.seq !== undefined) {
+                    // Replayed messages we already handled before the reconnect
+                    if (message.seq <= this.lastSeq) return
+                    this.lastSeq = message.seq
+                }
+                try {
+                    this.handleMessage(message)
+                } catch (error) {
+                    this.logger.error('Failed to handle message', { error, type: message.type })
+                }
+            }
+
+            ws.onerror = error => {
+                if (!opened) {
+                    this.logger.debug('WebSocket error', { error })
+                    reject(error)
+                } else {
+                    this.logger.error('WebSocket error', { error })
+                }
+            }
+
+            ws.onclose = (event) => {
+                if (!opened) {
+                    reject(new Error(`WebSocket closed before opening (code=${event.code})`))
+                    return
+                }
+                // A newer socket has taken over; this one's close is not a disconnect
+                if (this.ws !== ws) return
+                this.logger.debug('Disconnected', { code: event.code, reason: event.reason })
+
+                // Transfer data is not replayed, so in-flight transfers fail and can be resumed
+                for (const listener of [...this.transferListeners.values()]) {
+                    listener({ type: 'disconnected' })
+                }
+
+                if (this.shouldReconnect(event.code)) {
+                    void this.reconnect(event.code, event.reason)
+                } else {
+                    this.handleClose(event.code, event.reason)
+                }
+            }
+        })
+    }
+
+    /**
+     * Check the server's `connected` message: same protocol version, and the capabilities the
+     * client's options rely on. Returns the error to fail the connection with, if any.
+     */
+    private checkHandshake(data: string): CastariProtocolError | null {
+        let message: Record<string, unknown> | null = null
+        try {
+            message = JSON.parse(data)
+        } catch {
+            // Reported below as not being a handshake
+        }
+        if (message?.type !== 'connected') {
+            return new CastariProtocolError(
+                `Expected a connected message from the server, got ${String(message?.type ?? 'malformed data')}`,
+                { code: 'protocol_mismatch', messageType: message?.type as string | undefined },
+            )
+        }
+        if (message.protocolVersion !== PROTOCOL_VERSION) {
+            const serverVersion =
+                message.protocolVersion === undefined
+                    ? 'a version from before protocol versioning'
+                    : `protocol version ${String(message.protocolVersion)}`
+            return new CastariProtocolError(
+                `Server speaks ${serverVersion}, but this client speaks protocol version ${PROTOCOL_VERSION}; ` +
+                'upgrade the SDK on the older side so both match',
+                { code: 'protocol_mismatch', messageType: 'connected' },
+            )
+        }
+        this.capabilities = Array.isArray(message.capabilities)
+            ? message.capabilities.filter((capability): capability is string => typeof capability === 'string')
+            : []
+        if (this.options.tools?.length && !this.capabilities.includes('client_tools')) {
+            return new CastariProtocolError('Server does not support client tools', {
+                code: 'unsupported_capability',
+                messageType: 'connected',
+            })
+        }
+        return null
+    }
+
+    // A frame that does not match the protocol fails the request it answers, if there is one
+    private handleProtocolError(error: CastariProtocolError, requestId?: string) {
+        this.logger.warn('Received an invalid message', { error })
+        const pending = requestId ? this.pendingRequests.get(requestId) : undefined
+        if (requestId && pending) {
+            this.pendingRequests.delete(requestId)
+            clearTimeout(pending.timer)
+            pending.reject(
+                requestError(error.message, {
+                    code: error.code,
+                    operation: pending.operation,
+                    path: pending.path,
+                    requestId,
+                }),
+            )
+        }
+        this.protocolErrorHandlers.forEach(handler => handler(error))
+    }
+
+    // Messages the server has not announced support for fail before they are sent
+    private unsupportedError(type: WSInputMessage['type']) {
+        const capability = INPUT_CAPABILITIES[type]
+        if (!capability || this.capabilities.includes(capability)) return null
+        return new CastariProtocolError(
+            `Server does not support ${type} (missing the ${capability} capability)`,
+            { code: 'unsupported_capability', messageType: type },
+        )
+    }
+
+    private shouldReconnect(code: number) {
+        // 1000 is a normal close initiated by either side; 1001 means the server shut down
+        return (
+            !this.stopping &&
+            code !== 1000 &&
+            code !== 1001 &&
+            this.options.reconnect !== false &&
+            !!this.reconnectToken &&
+            !!this.connection?.reconnectUrl
+        )
+    }
+
+    private handleClose(code: number, reason: string) {
+        this.rejectPendingRequests('disconnected')
+        const error = new Error(`Connection closed during query (code=${code}${reason ? `: ${reason}` : ''})`)
+        for (const messageId of [...this.queryStreams.keys()]) {
+            this.failQuery(messageId, error)
+        }
+        this.activeQuery = undefined
+        this.closeHandlers.forEach(handler => handler(code, reason))
+    }
+
+    /**
+     * Reconnect with exponential backoff, asking the server to replay what was emitted
+     * since the last sequence number we saw. Gives up after `maxAttempts`.
+     */
+    private async reconnect(code: number, reason: string) {
+        const settings = typeof this.options.reconnect === 'object' ? this.options.reconnect : {}
+        const maxAttempts = settings.maxAttempts ?? DEFAULT_RECONNECT_ATTEMPTS
+        const initialDelayMs = settings.initialDelayMs ?? DEFAULT_RECONNECT_INITIAL_DELAY_MS
+        const maxDelayMs = settings.maxDelayMs ?? DEFAULT_RECONNECT_MAX_DELAY_MS
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            const delayMs = Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs)
+            this.reconnectingHandlers.forEach(handler => handler(attempt, delayMs))
+            await new Promise(resolve => setTimeout(resolve, delayMs))
+            if (this.stopping) return
+
+            try {
+                const connectionToken = await this.requestReconnectToken()
+                await this.openSocket(connectionToken, this.lastSeq)
+                this.logger.debug('Reconnected', { attempts: attempt })
+                this.reconnectedHandlers.forEach(handler => handler())
+                return
+            } catch (error) {
+                this.logger.debug('Reconnect attempt failed', { attempt, error })
+            }
+        }
+
+        this.handleClose(code, reason)
+    }
+
+    private async requestReconnectToken() {
+        const connection = this.connection
+        if (!connection?.reconnectUrl) {
+            throw new Error('Connection does not support reconnecting')
+        }
+        const response = await fetch(connection.reconnectUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...connection.authHeaders,
+            },
+            body: JSON.stringify({
+                sessionId: this.sessionId,
+                reconnectToken: this.reconnectToken,
+            }),
+        })
+        if (!response.ok) {
+            throw new Error(`Reconnect request failed (status ${response.status}): ${await response.text()}`)
+        }
+        const { connectionToken } = (await response.json()) as { connectionToken?: string }
+        if (!connectionToken) {
+            throw new Error('Server did not return a connectionToken')
+        }
+        return connectionToken
+    }
+
+    private handleMessage(message: WSOutputMessage) {
+        this.logger.debug('Received message', { message })
+        // Permission requests carry server-generated IDs that never match a pending request
+        if (
+            'requestId' in message &&
+            message.requestId &&
+            message.type !== 'permission_request'
+        ) {
+            const pending = this.pendingRequests.get(message.requestId)
+            if (pending) {
+                this.pendingRequests.delete(message.requestId)
+                clearTimeout(pending.timer)
+                if (message.type === 'error') {
+                    pending.reject(
+                        requestError(message.error, {
+                            code: message.code ?? 'operation_failed',
+                            operation: pending.operation,
+                            path: pending.path,
+                            requestId: message.requestId,
+                        }),
+                    )
+                } else {
+                    pending.resolve(message)
+                }
+            }
+        }
+        const transferId =
+            'transferId' in message
+                ? message.transferId
+                : message.type === 'error'
+                    ? message.requestId
+                    : undefined
+        if (transferId) {
+            this.transferListeners.get(transferId)?.(message)
+        }
+        if (message.type === 'file_changed') {
+            this.watchHandlers.get(message.subscriptionId)?.onChange(message.changes)
+        }
+        // Without an error it only acknowledges `unwatch_files`; the handlers are gone already
+        if (message.type === 'watch_stopped' && message.error) {
+            const handlers = this.watchHandlers.get(message.subscriptionId)
+            this.watchHandlers.delete(message.subscriptionId)
+            handlers?.onStopped?.(
+                new CastariFileError(message.error, {
+                    code: 'operation_failed',
+                    operation: 'watch_files',
+                    requestId: message.subscriptionId,
+                }),
+            )
+        }
+        if (message.type === 'permission_request' && this.permissionHandler) {
+            void this.answerPermissionRequest(message, this.permissionHandler)
+        }
+        if (message.type === 'tool_call') {
+            void this.runClientTool(message)
+        }
+        this.routeQueryMessage(message)
+        this.messageHandlers.forEach(handler => handler(message))
+    }
+
+    private async answerPermissionRequest(
+        request: PermissionRequest,
+        handler: PermissionHandler,
+    ) {
+        let decision: PermissionDecision
+        try {
+            decision = await handler(request)
+        } catch (err) {
+            decision = {
+                behavior: 'deny',
+                message: `Permission handler failed: ${err instanceof Error ? err.message : String(err)}`,
+            }
+        }
+        if (this.isConnected()) {
+            this.send({ type: 'permission_response', requestId: request.requestId, decision })
+        }
+    }
+
+    private async runClientTool(call: Extract<WSOutputMessage, { type: 'tool_call' }>) {
+        const clientTool = this.options.tools?.find(candidate => candidate.name === call.name)
+        let result: ClientToolResult
+        try {
+            if (!clientTool) {
+                throw new Error(`Unknown client tool: ${call.name}`)
+            }
+            const output = await clientTool.handler(call.input)
+            result = typeof output === 'string' ? { content: [{ type: 'text', text: output }] } : output
+        } catch (err) {
+            result = {
+                content: [{ type: 'text', text: err instanceof Error ? err.message : String(err) }],
+                isError: true,
+            }
+        }
+        if (this.isConnected()) {
+            this.send({ type: 'tool_result', callId: call.callId, ...result })
+        }
+    }
+
+    /**
+     * Send a request and wait for the reply or `error` carrying the same request ID.
+     */
+    private request(
+        message: RequestMessage,
+        options: FileRequestOptions = {},
+    ): Promise<WSOutputMessage> {
+        const requestId = crypto.randomUUID()
+        const operation = message.type
+        const path = 'path' in message ? message.path : undefined
+
+        if (!this.isConnected()) {
+            return Promise.reject(
+                requestError('WebSocket is not connected', {
+                    code: 'not_connected',
+                    operation,
+                    path,
+                    requestId,
+                }),
+            )
+        }
+        const unsupported = this.unsupportedError(operation)
+        if (unsupported) {
+            return Promise.reject(
+                requestError(unsupported.message, { code: unsupported.code, operation, path, requestId }),
+            )
+        }
+
+        return new Promise<WSOutputMessage>((resolve, reject) => {
+            const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
+            const timer = setTimeout(() => {
+                this.pendingRequests.delete(requestId)
+                reject(
+                    requestError(`${operation} timed out after ${timeoutMs}ms`, {
+                        code: 'timeout',
+                        operation,
+                        path,
+                        requestId,
+                    }),
+                )
+            }, timeoutMs)
+
+            this.pendingRequests.set(requestId, {
+                operation,
+                path,
+                resolve,
+                reject,
+                timer,
+            })
+            this.send({ ...message, requestId })
+        })
+    }
+
+    private rejectPendingRequests(code: 'disconnected') {
+        for (const [requestId, pending] of this.pendingRequests) {
+            clearTimeout(pending.timer)
+            pending.reject(
+                requestError(`Connection closed before ${pending.operation} completed`, {
+                    code,
+                    operation: pending.operation,
+                    path: pending.path,
+                    requestId,
+                }),
+            )
+        }
+        this.pendingRequests.clear()
+    }
+
+    /**
+     * Write a file in the agent workspace, creating missing parent directories. Binary content
+     * is sent base64-encoded.
+     */
+    async writeFile(
+        path: string,
+        content: string | Uint8Array,
+        options: FileRequestOptions = {},
+    ): Promise<void> {
+        await this.request(
+            typeof content === 'string'
+                ? { type: 'create_file', path, content, encoding: 'utf-8' }
+                : { type: 'create_file', path, content: toBase64(content), encoding: 'base64' },
+            options,
+        )
+    }
+
+    /** Read a file from the agent workspace, returned in the requested encoding */
+    async readFile(
+        path: string,
+        options: FileRequestOptions & { encoding?: 'utf-8' | 'base64' } = {},
+    ): Promise<string> {
+        const { encoding = 'utf-8', ...requestOptions } = options
+        const result = await this.request({ type: 'read_file', path, encoding }, requestOptions)
+        return result.type === 'file_result' && result.operation === 'read_file'
+            ? result.result
+            : ''
+    }
+
+    /** Delete a file from the agent workspace */
+    async deleteFile(path: string, options: FileRequestOptions = {}): Promise<void> {
+        await this.request({ type: 'delete_file', path }, options)
+    }
+
+    /** List the entries of a workspace directory (defaults to the workspace root) */
+    async listFiles(path?: string, options: FileRequestOptions = {}): Promise<string[]> {
+        const result = await this.request({ type: 'list_files', path }, options)
+        return result.type === 'file_result' && result.operation === 'list_files'
+            ? result.result
+            : []
+    }
+
+    /**
+     * List a workspace directory with type, size, mtime and mode for each entry. Supports
+     * recursion, glob filters, `.gitignore` awareness and paging via `limit`/`cursor`.
+     */
+    async listFileEntries(
+        path?: string,
+        options: ListFilesOptions & FileRequestOptions = {},
+    ): Promise<{ entries: FileEntry[]; nextCursor?: string }> {
+        const { timeoutMs, ...listOptions } = options
+        const result = await this.request(
+            { type: 'list_files', path, ...listOptions },
+            { timeoutMs },
+        )
+        return result.type === 'file_result' && result.operation === 'list_files'
+            ? { entries: result.entries, nextCursor: result.nextCursor }
+            : { entries: [] }
+    }
+
+    /**
+     * Fetch the session's status: connection state, queue depth, whether the agent stream is
+     * running, the last error and usage totals, plus the server's uptime.
+     */
+    async getStatus(options: FileRequestOptions = {}): Promise<StatusSnapshot> {
+        const result = await this.request({ type: 'get_status' }, options)
+        if (result.type !== 'status') {
+            throw new CastariRequestError(`Unexpected reply to get_status: ${result.type}`, {
+                code: 'operation_failed',
+                operation: 'get_status',
+            })
+        }
+        const { type, requestId, seq, ...snapshot } = result
+        return snapshot
+    }
+
+    /**
+     * Fetch the session's transcript: every message sent and received, oldest first. Pass
+     * `since` to only fetch entries recorded from that time on. See `exportTranscript`.
+     */
+    async getTranscript(
+        options: FileRequestOptions & { since?: number | Date } = {},
+    ): Promise<TranscriptEntry[]> {
+        const { since, ...requestOptions } = options
+        const result = await this.request(
+            {
+                type: 'get_transcript',
+                since: since instanceof Date ? since.getTime() : since,
+            },
+            requestOptions,
+        )
+        return result.type === 'transcript' ? result.entries : []
+    }
+
+    /** List the user messages waiting for the agent, next in line first */
+    async listQueue(options: FileRequestOptions = {}): Promise<QueuedMessageSummary[]> {
+        const result = await this.request({ type: 'list_queue' }, options)
+        return result.type === 'queue' ? result.messages : []
+    }
+
+    /**
+     * Take back a message that has not started yet, e.g. a `query()`'s `messageId`. Its
+     * query stream fails with code `cancelled`. Rejects with `message_not_found` otherwise.
+     */
+    async cancelMessage(messageId: string, options: FileRequestOptions = {}): Promise<void> {
+        await this.request({ type: 'cancel_message', messageId }, options)
+    }
+
+    /** Cancel every queued message, returning their IDs */
+    async clearQueue(options: FileRequestOptions = {}): Promise<string[]> {
+        const result = await this.request({ type: 'clear_queue' }, options)
+        return result.type === 'messages_cancelled' ? result.messageIds : []
+    }
+
+    /**
+     * List the workspace checkpoints, newest first. The server takes one before each turn
+     * (announced with `checkpoint_created`) and another before each restore.
+     */
+    async listCheckpoints(options: FileRequestOptions = {}): Promise<Checkpoint[]> {
+        const result = await this.request({ type: 'list_checkpoints' }, options)
+        return result.type === 'checkpoints' ? result.checkpoints : []
+    }
+
+    /**
+     * What changed in the workspace since a checkpoint, as one unified patch per file.
+     * Pass `paths` to only compare those files or directories.
+     */
+    async diffCheckpoint(
+        checkpointId: string,
+        options: FileRequestOptions & { paths?: string[] } = {},
+    ): Promise<CheckpointFileDiff[]> {
+        const { paths, ...requestOptions } = options
+        const result = await this.request(
+            { type: 'diff_checkpoint', checkpointId, paths },
+            requestOptions,
+        )
+        return result.type === 'checkpoint_diff' ? result.files : []
+    }
+
+    /**
+     * Put the workspace back the way it was at a checkpoint. The current state is saved
+     * first; restore the returned `backupCheckpointId` to undo. Rejects with
+     * `turn_in_progress` while the agent is working.
+     */
+    async restoreCheckpoint(
+        checkpointId: string,
+        options: FileRequestOptions = {},
+    ): Promise<{ backupCheckpointId: string }> {
+        const result = await this.request({ type: 'restore_checkpoint', checkpointId }, options)
+        if (result.type !== 'checkpoint_restored') {
+            throw new CastariRequestError(`Unexpected reply to a checkpoint restore: ${result.type}`, {
+                code: 'operation_failed',
+                operation: 'restore_checkpoint',
+            })
+        }
+        return { backupCheckpointId: result.backupCheckpointId }
+    }
+
+    /**
+     * Switch the session's model for the next turns (the default model when omitted).
+     * Applied to the running agent, keeping the conversation. Resolves with the new config.
+     */
+    async setModel(model?: string, options: FileRequestOptions = {}): Promise<QueryConfig> {
+        return this.configUpdated(await this.request({ type: 'set_model', model }, options))
+    }
+
+    /** Change how tool uses are approved from now on, e.g. `'plan'` or `'acceptEdits'` */
+    async setPermissionMode(
+        mode: PermissionMode,
+        options: FileRequestOptions = {},
+    ): Promise<QueryConfig> {
+        return this.configUpdated(
+            await this.request({ type: 'set_permission_mode', mode }, options),
+        )
+    }
+
+    /**
+     * Change any session config field mid-session. Fields the running agent cannot take
+     * (e.g. `allowedTools` or `systemPrompt`) restart it after the current turn, resuming
+     * the same conversation. Rejects with `invalid_config` if a field fails validation.
+     */
+    async updateConfig(
+        config: QueryConfigUpdate,
+        options: FileRequestOptions = {},
+    ): Promise<QueryConfig> {
+        return this.configUpdated(await this.request({ type: 'update_config', config }, options))
+    }
+
+    private configUpdated(result: WSOutputMessage): QueryConfig {
+        if (result.type !== 'config_updated') {
+            throw new CastariRequestError(`Unexpected reply to a config change: ${result.type}`, {
+                code: 'operation_failed',
+                operation: 'update_config',
+            })
+        }
+        return result.config
+    }
+
+    onMessage(handler: (message: WSOutputMessage) => void) {
+        this.messageHandlers.push(handler)
+        return () => {
+            this.messageHandlers = this.messageHandlers.filter(h => h !== handler)
+        }
+    }
+
+    /**
+     * Register a callback for server messages that do not match the protocol. They are
+     * dropped (and logged); a request they answer fails with the same code.
+     */
+    onProtocolError(handler: (error: CastariProtocolError) => void) {
+        this.protocolErrorHandlers.push(handler)
+        return () => {
+            this.protocolErrorHandlers = this.protocolErrorHandlers.filter(h => h !== handler)
+        }
+    }
+
+    /** Optional protocol features the connected server announced, e.g. `'transfers'` */
+    getServerCapabilities(): string[] {
+        return [...this.capabilities]
+    }
+
+    /** Register a callback for when the WebSocket connection closes */
+    onClose(handler: (code: number, reason: string) => void) {
+        this.closeHandlers.push(handler)
+        return () => {
+            this.closeHandlers = this.closeHandlers.filter(h => h !== handler)
+        }
+    }
+
+    /** Register a callback fired before each reconnect attempt after an unexpected disconnect */
+    onReconnecting(handler: (attempt: number, delayMs: number) => void) {
+        this.reconnectingHandlers.push(handler)
+        return () => {
+            this.reconnectingHandlers = this.reconnectingHandlers.filter(h => h !== handler)
+        }
+    }
+
+    /** Register a callback fired once a dropped connection has been re-established */
+    onReconnected(handler: () => void) {
+        this.reconnectedHandlers.push(handler)
+        return () => {
+            this.reconnectedHandlers = this.reconnectedHandlers.filter(h => h !== handler)
+        }
+    }
+
+    /**
+     * Subscribe to debounced change notifications for a workspace directory (the whole
+     * workspace by default). Resolves once the server is watching, with an unsubscribe function.
+     * `onStopped` is called if the server has to stop watching, e.g. when the directory is deleted.
+     */
+    watchFiles(
+        handler: (changes: FileChange[]) => void,
+        options: WatchFilesOptions &
+            FileRequestOptions & { path?: string; onStopped?: (error: CastariFileError) => void } = {},
+    ): Promise<() => void> {
+        const { timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS, onStopped, ...watchOptions } = options
+        const subscriptionId = crypto.randomUUID()
+        const unsubscribe = () => {
+            if (!this.watchHandlers.delete(subscriptionId)) return
+            if (this.isConnected()) {
+                this.send({ type: 'unwatch_files', subscriptionId })
+            }
+        }
+        const fail = (code: CastariFileError['code'], message: string) =>
+            new CastariFileError(message, {
+                code,
+                operation: 'watch_files',
+                path: options.path,
+                requestId: subscriptionId,
+            })
+
+        if (!this.isConnected()) {
+            return Promise.reject(fail('not_connected', 'WebSocket is not connected'))
+        }
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                stopListening()
+                this.watchHandlers.delete(subscriptionId)
+                reject(fail('timeout', `watch_files timed out after ${timeoutMs}ms`))
+            }, timeoutMs)
+            const stopListening = this.onMessage(message => {
+                if (message.type === 'watch_started' && message.subscriptionId === subscriptionId) {
+                    clearTimeout(timer)
+                    stopListening()
+                    resolve(unsubscribe)
+                } else if (message.type === 'error' && message.requestId === subscriptionId) {
+                    clearTimeout(timer)
+                    stopListening()
+                    this.watchHandlers.delete(subscriptionId)
+                    reject(fail(message.code ?? 'operation_failed', message.error))
+                }
+            })
+
+            this.watchHandlers.set(subscriptionId, { onChange: handler, onStopped })
+            this.send({ type: 'watch_files', subscriptionId, ...watchOptions })
+        })
+    }
+
+    private transferChannel() {
+        return {
+            send: (message: WSInputMessage) => this.send(message),
+            subscribe: (transferId: string, handler: (event: TransferEvent) => void) => {
+                this.transferListeners.set(transferId, handler)
+                return () => {
+                    this.transferListeners.delete(transferId)
+                }
+            },
+        }
+    }
+
+    /**
+     * Upload a stream to a workspace file in checksummed chunks. Use this instead of
+     * `writeFile` for large files; pass `resume: true` to continue an interrupted upload.
+     */
+    upload(
+        path: string,
+        stream: ReadableStream<Uint8Array>,
+        options: UploadOptions = {},
+    ): Promise<TransferResult> {
+        return uploadStream(this.transferChannel(), path, stream, options)
+    }
+
+    /**
+     * Download a workspace file as a stream of checksummed chunks. Pass `offset` to resume
+     * an interrupted download.
+     */
+    download(path: string, options: DownloadOptions = {}): ReadableStream<Uint8Array> {
+        return downloadStream(this.transferChannel(), path, options)
+    }
+
+    /**
+     * Send a prompt and stream the resulting turn. The returned stream yields every
+     * `SDKMessage` up to the SDK `result` message; `result()` resolves with the final text,
+     * usage and cost. Prompts sent while the agent is busy wait in the server's queue and can
+     * be taken back with `cancelMessage(stream.messageId)`.
+     */
+    query(prompt: QueryPrompt, options: QueryOptions = {}): QueryStream {
+        const stream = new QueryStream(crypto.randomUUID())
+        const { signal } = options
+        if (signal?.aborted) {
+            stream.fail(signal.reason ?? new Error('Query aborted'))
+            return stream
+        }
+
+        try {
+            this.send({
+                type: 'user_message',
+                messageId: stream.messageId,
+                data: {
+                    type: 'user',
+                    message: { role: 'user', content: prompt },
+                    parent_tool_use_id: null,
+                    session_id: '',
+                },
+            })
+        } catch (err) {
+            stream.fail(err)
+            return stream
+        }
+        this.queryStreams.set(stream.messageId, stream)
+
+        if (signal) {
+            // A running turn is interrupted; a queued message is simply withdrawn
+            const onAbort = () => {
+                if (!this.isConnected()) return
+                if (this.activeQuery === stream) {
+                    this.send({ type: 'interrupt' })
+                } else if (this.queryStreams.has(stream.messageId)) {
+                    this.cancelMessage(stream.messageId).catch(() => {})
+                }
+            }
+            signal.addEventListener('abort', onAbort, { once: true })
+            void stream.result().finally(() => signal.removeEventListener('abort', onAbort))
+        }
+        return stream
+    }
+
+    /**
+     * Send a prompt with attachments and stream the resulting turn, like `query()`. Images
+     * and PDFs within the API's limits are inlined as content blocks; other files are
+     * uploaded to `uploads/<id>/` and listed at the end of the prompt. Resolves once the
+     * uploads are done and the message is sent.
+     */
+    async sendMessage(text: string, options: SendMessageOptions = {}): Promise<QueryStream> {
+        const {
+            attachments = [],
+            uploadDirectory = ATTACHMENT_UPLOAD_DIR,
+            maxAttachmentBytes = ATTACHMENT_MAX_BYTES,
+            onUploadProgress,
+            ...queryOptions
+        } = options
+        const resolved = await Promise.all(
+            attachments.map((attachment, index) =>
+                resolveAttachment(attachment, index, {
+                    maxBytes: maxAttachmentBytes,
+                    readFile: (path, maxBytes) => this.readAttachmentFile(path, maxBytes),
+                }),
+            ),
+        )
+        const { inline, uploads } = planAttachments(resolved)
+
+        const directory = `${uploadDirectory.replace(/\/+$/, '')}/${crypto.randomUUID().slice(0, 8)}`
+        const paths = uploadPaths(uploads, directory)
+        const uploaded: UploadedAttachment[] = []
+        for (const [index, { name, mimeType, bytes }] of uploads.entries()) {
+            const path = paths[index]
+            this.logger.debug('Uploading attachment', { name, path, size: bytes.length })
+            await this.upload(path, new Blob([bytes]).stream(), {
+                totalBytes: bytes.length,
+                onProgress: onUploadProgress,
+            })
+            uploaded.push({ name, mimeType, path, size: bytes.length })
+        }
+        return this.query(attachmentPrompt(text, inline, uploaded), queryOptions)
+    }
+
+    /**
+     * Read a local file attached by path. Browsers have no file system, so the browser client
+     * only accepts bytes and Blobs; the Node client reads from disk.
+     */
+    protected async readAttachmentFile(path: string, _maxBytes: number): Promise<Uint8Array> {
+        throw new CastariAttachmentError(
+            `Cannot read ${path}: file paths can only be attached in Node or Bun; pass a Blob or bytes`,
+            { code: 'attachment_unreadable', fileName: path },
+        )
+    }
+
+    // Route turn events to the query() stream they belong to
+    private routeQueryMessage(message: WSOutputMessage) {
+        if (message.type === 'message_started') {
+            this.activeQuery = this.queryStreams.get(message.messageId)
+        } else if (message.type === 'sdk_message') {
+            this.activeQuery?.push(message.data)
+            if (message.data.type === 'result' && this.activeQuery) {
+                this.queryStreams.delete(this.activeQuery.messageId)
+                this.activeQuery = undefined
+            }
+        } else if (message.type === 'error') {
+            if (!message.requestId && this.activeQuery) {
+                this.failQuery(this.activeQuery.messageId, new Error(message.error))
+                this.activeQuery = undefined
+            } else if (message.requestId && this.queryStreams.has(message.requestId)) {
+                // e.g. the server's queue was full
+                this.failQuery(
+                    message.requestId,
+                    new CastariRequestError(message.error, {
+                        code: message.code ?? 'operation_failed',
+                        operation: 'user_message',
+                        requestId: message.requestId,
+                    }),
+                )
+            }
+        } else if (message.type === 'messages_cancelled') {
+            for (const messageId of message.messageIds) {
+                this.failQuery(
+                    messageId,
+                    new CastariRequestError('Message was cancelled before it started', {
+                        code: 'cancelled',
+                        operation: 'user_message',
+                        requestId: messageId,
+                    }),
+                )
+            }
+        }
+    }
+
+    private failQuery(messageId: string, error: unknown) {
+        this.queryStreams.get(messageId)?.fail(error)
+        this.queryStreams.delete(messageId)
+    }
+
+    /**
+     * Decide tool uses the server forwards to the client (requires `permissionPolicy: 'client'`
+     * on the server). Only one handler is active; registering another replaces it.
+     */
+    onPermissionRequest(handler: PermissionHandler) {
+        this.permissionHandler = handler
+        return () => {
+            if (this.permissionHandler === handler) this.permissionHandler = undefined
+        }
+    }
+
+    send(message: WSInputMessage) {
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+            throw new Error('WebSocket is not connected')
+        }
+        const unsupported = this.unsupportedError(message.type)
+        if (unsupported) throw unsupported
+        this.ws.send(JSON.stringify(message))
+    }
+
+    /** Close the connection; the server ends the session */
+    async stop() {
+        this.stopping = true
+        if (this.ws) {
+            this.ws.close()
+        }
+    }
+}
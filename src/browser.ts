@@ -0,0 +1,25 @@
+export * from './types'
+export * from './errors'
+export * from './query-stream'
+export * from './logger'
+export {
+    INPUT_CAPABILITIES,
+    PROTOCOL_CAPABILITIES,
+    PROTOCOL_VERSION,
+    parseInputMessage,
+    parseOutputMessage,
+    type ProtocolCapability,
+    type ProtocolParseResult,
+} from './protocol'
+export * from './transcript-export'
+export * from './browser-client'
+export {
+    detectMimeType,
+    type Attachment,
+    type AttachmentSource,
+} from './attachments'
+export type {
+    DownloadOptions,
+    TransferResult,
+    UploadOptions,
+} from './transfer-client'
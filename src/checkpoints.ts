@@ -0,0 +1,233 @@
+import { execFile } from 'child_process'
+import { mkdir, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { promisify } from 'util'
+
+import { CHECKPOINT_MAX_DIFF_BYTES, STATE_DIR_NAME, TRANSFER_PARTIAL_SUFFIX } from './const'
+import { type CheckpointErrorCode } from './errors'
+import { type Logger } from './logger'
+import { type Checkpoint, type CheckpointFileDiff } from './types'
+
+export type CheckpointStore = {
+    /**
+     * Snapshot the workspace before the agent starts on a message. Resolves with null (and
+     * logs why) when the snapshot could not be taken; a failed checkpoint never blocks a turn.
+     */
+    create: (messageId: string, preview: string) => Promise<Checkpoint | null>
+    /** Every checkpoint, newest first */
+    list: () => Promise<Checkpoint[]>
+    /** Changes from the checkpoint to the current workspace, one unified patch per file */
+    diff: (checkpointId: string, paths?: string[]) => Promise<CheckpointFileDiff[]>
+    /**
+     * Put the workspace back the way it was at the checkpoint, after taking a `restore`
+     * checkpoint of the current state so the restore itself can be undone
+     */
+    restore: (checkpointId: string) => Promise<{ backupCheckpointId: string }>
+}
+
+/** Raised by a `CheckpointStore`; sent to the client as an `error` with the same code */
+export class CheckpointError extends Error {
+    readonly code: CheckpointErrorCode
+
+    constructor(code: CheckpointErrorCode, message: string) {
+        super(message)
+        this.name = 'CheckpointError'
+        this.code = code
+    }
+}
+
+const execFileAsync = promisify(execFile)
+
+// Commit hashes, full or abbreviated
+const CHECKPOINT_ID_PATTERN = /^[0-9a-f]{7,40}$/
+
+// Never part of a snapshot: SDK state and incomplete uploads
+const EXCLUDED_PATTERNS = [`/${STATE_DIR_NAME}/`, `*${TRANSFER_PARTIAL_SUFFIX}`]
+
+const DIFF_STATUSES: Record<string, CheckpointFileDiff['status']> = {
+    A: 'added',
+    M: 'modified',
+    D: 'deleted',
+    T: 'modified',
+}
+
+/**
+ * Per-turn snapshots of a session's workspace, kept as commits in a hidden git repository
+ * (`directory`) whose work tree is the workspace. The workspace's own `.gitignore` files
+ * apply, so ignored files are neither snapshotted nor touched by a restore. Nested git
+ * repositories are left out too, since git can't store their files; `diff` lists them as
+ * `skipped`. Requires `git`.
+ */
+export function createCheckpointStore(options: {
+    workspaceDirectory: string
+    directory: string
+    /**
+     * Workspace globs never snapshotted, so a restore can't write them either: the path
+     * policy's read-only and denied paths
+     */
+    excludedPaths?: string[]
+    logger: Logger
+}): CheckpointStore {
+    const { workspaceDirectory, directory, excludedPaths = [], logger } = options
+    const env = {
+        PATH: process.env.PATH,
+        GIT_DIR: directory,
+        GIT_WORK_TREE: workspaceDirectory,
+        // The host's git config (hooks, signing, autocrlf) must not leak into snapshots
+        GIT_CONFIG_NOSYSTEM: '1',
+        GIT_CONFIG_GLOBAL: '/dev/null',
+        GIT_AUTHOR_NAME: 'Castari',
+        GIT_AUTHOR_EMAIL: 'checkpoints@castari.local',
+        GIT_COMMITTER_NAME: 'Castari',
+        GIT_COMMITTER_EMAIL: 'checkpoints@castari.local',
+    }
+    const git = async (...args: string[]) => {
+        const { stdout } = await execFileAsync('git', ['-c', 'core.quotepath=false', ...args], {
+            cwd: workspaceDirectory,
+            env,
+            maxBuffer: CHECKPOINT_MAX_DIFF_BYTES,
+        })
+        return stdout
+    }
+
+    // Git operations share one index, so they run one at a time
+    let chain: Promise<unknown> = Promise.resolve()
+    const serialized = <T>(operation: () => Promise<T>): Promise<T> => {
+        const run = chain.then(operation)
+        chain = run.catch(() => {})
+        return run
+    }
+
+    let initialized: Promise<void> | null = null
+    const init = () => {
+        initialized ??= (async () => {
+            await mkdir(directory, { recursive: true })
+            await git('init', '--quiet')
+            // Path policy globs read the same as gitignore patterns: anchored when they contain a `/`
+            const patterns = [...EXCLUDED_PATTERNS, ...excludedPaths]
+            await writeFile(join(directory, 'info', 'exclude'), `${patterns.join('\n')}\n`)
+        })().catch(err => {
+            initialized = null
+            throw new CheckpointError(
+                'checkpoints_unavailable',
+                `Checkpoints are unavailable: ${err instanceof Error ? err.message : String(err)}`,
+            )
+        })
+        return initialized
+    }
+
+    // Stage the whole workspace but its nested repositories, which `ls-files` lists as `dir/`.
+    // Git would record them as bare commit references, or refuse outright if one has no commits.
+    const stage = async () => {
+        const untracked = await git('ls-files', '--others', '--exclude-standard', '-z')
+        const nested = untracked
+            .split('\0')
+            .filter(path => path.endsWith('/'))
+            .map(path => path.slice(0, -1))
+        await git('add', '--all', '--', ':/', ...nested.map(path => `:(exclude,literal)${path}`))
+        return nested
+    }
+
+    // Everything but the ID is kept in the commit message
+    const commit = async (metadata: Omit<Checkpoint, 'checkpointId'>) => {
+        await stage()
+        await git('commit', '--quiet', '--allow-empty', '--no-verify', '-m', JSON.stringify(metadata))
+        return (await git('rev-parse', 'HEAD')).trim()
+    }
+
+    const resolve = async (checkpointId: string) => {
+        const sha = CHECKPOINT_ID_PATTERN.test(checkpointId)
+            ? await git('rev-parse', '--verify', '--quiet', `${checkpointId}^{commit}`).catch(() => '')
+            : ''
+        if (!sha.trim()) {
+            throw new CheckpointError('checkpoint_not_found', `No checkpoint ${checkpointId}`)
+        }
+        return sha.trim()
+    }
+
+    return {
+        create: (messageId, preview) =>
+            serialized(async () => {
+                try {
+                    await init()
+                    const metadata = { reason: 'turn' as const, messageId, preview, createdAt: Date.now() }
+                    return { checkpointId: await commit(metadata), ...metadata }
+                } catch (error) {
+                    logger.warn('Failed to create checkpoint', { messageId, error })
+                    return null
+                }
+            }),
+
+        list: () =>
+            serialized(async () => {
+                await init()
+                // No commits yet: `git log` fails on an unborn branch
+                const head = await git('rev-parse', '--verify', '--quiet', 'HEAD').catch(() => '')
+                if (!head.trim()) return []
+                const log = await git('log', '--format=%H%x00%ct%x00%s')
+                return log
+                    .split('\n')
+                    .filter(Boolean)
+                    .map(line => {
+                        const [checkpointId, time, subject] = line.split('\0')
+                        let metadata: Partial<Checkpoint> = {}
+                        try {
+                            metadata = JSON.parse(subject)
+                        } catch {
+                            // Not written by us; listed without details
+                        }
+                        return {
+                            reason: metadata.reason ?? 'turn',
+                            messageId: metadata.messageId,
+                            preview: metadata.preview,
+                            restoredFrom: metadata.restoredFrom,
+                            checkpointId,
+                            createdAt: metadata.createdAt ?? Number(time) * 1000,
+                        }
+                    })
+            }),
+
+        diff: (checkpointId, paths = []) =>
+            serialized(async () => {
+                await init()
+                const sha = await resolve(checkpointId)
+                // Staging everything makes new files part of the comparison
+                const nested = await stage()
+                const scope = ['--cached', '--no-renames', sha, '--', ...paths]
+                const names = (await git('diff', '--name-status', '-z', ...scope)).split('\0')
+                const patch = await git('diff', ...scope)
+                // One `diff --git` section per file, in the same order as the name list
+                const sections = patch.split(/^(?=diff --git )/m).filter(Boolean)
+                const diffs: CheckpointFileDiff[] = []
+                for (let index = 0; index + 1 < names.length; index += 2) {
+                    diffs.push({
+                        path: names[index + 1],
+                        status: DIFF_STATUSES[names[index]] ?? 'modified',
+                        patch: sections[diffs.length] ?? '',
+                    })
+                }
+                const inScope = (path: string) =>
+                    paths.length === 0 ||
+                    paths.some(scoped => scoped === '.' || path === scoped || path.startsWith(`${scoped}/`))
+                for (const path of nested.filter(inScope)) {
+                    diffs.push({ path, status: 'skipped', patch: '' })
+                }
+                return diffs
+            }),
+
+        restore: checkpointId =>
+            serialized(async () => {
+                await init()
+                const sha = await resolve(checkpointId)
+                const backupCheckpointId = await commit({
+                    reason: 'restore',
+                    restoredFrom: sha,
+                    createdAt: Date.now(),
+                })
+                // Files created after the checkpoint are tracked by now, so they are removed too.
+                // Unlike `git restore`, this also works when either side has no files.
+                await git('read-tree', '--reset', '-u', sha)
+                return { backupCheckpointId }
+            }),
+    }
+}
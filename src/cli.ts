@@ -0,0 +1,337 @@
+#!/usr/bin/env bun
+import { watch } from 'fs'
+import { mkdir, readdir, stat } from 'fs/promises'
+import { basename, dirname, join, posix, relative, resolve } from 'path'
+import { createInterface } from 'readline'
+import { parseArgs } from 'util'
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk'
+
+import { CastariClient, type ClientOptions } from './client'
+import { SERVER_PORT } from './const'
+import { createLocalProvider } from './local-provider'
+import type { FileEntry } from './types'
+
+const USAGE = `Usage: castari <command> [options]
+
+Commands:
+  dev <entry>                   Run an agent locally, restarting it when files change
+  chat                          Chat with an agent in the terminal (Ctrl-C interrupts a turn)
+  files ls [path]               List workspace files
+  files push <local> [remote]   Copy a local file or directory into the workspace
+  files pull <remote> [local]   Copy a workspace file or directory to the local disk
+
+Options:
+  --port <port>         dev: port for the agent server (default ${SERVER_PORT})
+  --url <url>           chat, files: agent server URL (default http://localhost:${SERVER_PORT})
+  --snapshot <name>     chat, files: start a sandbox from a platform snapshot instead
+  --volume <name>       chat, files: volume to mount in the platform sandbox
+  --label <key=value>   chat, files: label the platform sandbox (repeatable)
+  --keep                chat: keep the platform sandbox after exiting (files always keeps it)
+  --model <model>       chat: model to use
+  -r, --recursive       files ls: list subdirectories too
+  --debug               Log connection details and every message
+  -h, --help            Show this help
+
+Environment:
+  ANTHROPIC_API_KEY, CASTARI_CLIENT_ID, CASTARI_API_KEY, CASTARI_PLATFORM_URL`
+
+// Changes under these directories don't restart `castari dev`
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', '.castari'])
+const RESTART_DEBOUNCE_MS = 200
+
+type Flags = ReturnType<typeof parse>['values']
+
+class UsageError extends Error {}
+
+function parse(args: string[]) {
+    return parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            port: { type: 'string' },
+            url: { type: 'string' },
+            snapshot: { type: 'string' },
+            volume: { type: 'string' },
+            label: { type: 'string', multiple: true },
+            keep: { type: 'boolean' },
+            model: { type: 'string' },
+            recursive: { type: 'boolean', short: 'r' },
+            debug: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+}
+
+const dim = (text: string) => (process.stdout.isTTY ? `\x1b[2m${text}\x1b[0m` : text)
+
+function truncate(text: string, length = 200) {
+    return text.length > length ? `${text.slice(0, length)}…` : text
+}
+
+async function dev(entry: string | undefined, flags: Flags) {
+    if (!entry) throw new UsageError('dev needs an entry file, e.g. castari dev src/agent.ts')
+    const port = flags.port ? Number(flags.port) : SERVER_PORT
+    const provider = createLocalProvider({ entry: resolve(entry), port })
+
+    const start = async () => {
+        try {
+            await provider.start()
+            console.log(`Agent ready at http://localhost:${port}`)
+        } catch (err) {
+            console.error(`${err instanceof Error ? err.message : String(err)}; waiting for changes`)
+        }
+    }
+
+    // Restarts are chained so a burst of saves never runs two agents at once
+    let restarting = Promise.resolve()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const watcher = watch(process.cwd(), { recursive: true }, (_event, filename) => {
+        const path = filename?.toString().split('\\').join('/')
+        if (!path || IGNORED_DIRECTORIES.has(path.split('/')[0])) return
+        clearTimeout(timer)
+        timer = setTimeout(() => {
+            restarting = restarting.then(async () => {
+                console.log(dim(`${path} changed, restarting...`))
+                await provider.stop()
+                await start()
+            })
+        }, RESTART_DEBOUNCE_MS)
+    })
+
+    const shutdown = () => {
+        watcher.close()
+        clearTimeout(timer)
+        restarting.then(() => provider.stop()).finally(() => process.exit(0))
+    }
+    process.once('SIGINT', shutdown)
+    process.once('SIGTERM', shutdown)
+
+    await start()
+}
+
+async function connect(flags: Flags, options: Partial<ClientOptions> = {}) {
+    const labels = flags.label?.map(label => {
+        const separator = label.indexOf('=')
+        if (separator <= 0) throw new UsageError(`Labels look like key=value, got ${label}`)
+        return [label.slice(0, separator), label.slice(separator + 1)]
+    })
+    const client = new CastariClient({
+        connectionUrl: flags.snapshot ? undefined : (flags.url ?? `http://localhost:${SERVER_PORT}`),
+        snapshot: flags.snapshot,
+        volume: flags.volume,
+        labels: labels && Object.fromEntries(labels),
+        debug: flags.debug,
+        ...options,
+    })
+    await client.start()
+    return client
+}
+
+// Every CLI command opens a new session, so `files push`, `chat` and `files pull` only see each
+// other's files when the server runs every session in the workspace root
+function hasSharedWorkspace(client: CastariClient) {
+    return client.getServerCapabilities().includes('shared_workspace')
+}
+
+const ISOLATED_WORKSPACE_ERROR =
+    "The agent server gives each session its own workspace (sessionWorkspaces: 'isolated'), " +
+    "so files would not carry over between castari commands. Run it with sessionWorkspaces: 'shared'."
+
+function printMessage(message: SDKMessage) {
+    if (message.type === 'assistant') {
+        for (const block of message.message.content as { type: string; [key: string]: unknown }[]) {
+            if (block.type === 'text') {
+                console.log(block.text)
+            } else if (block.type === 'tool_use') {
+                console.log(dim(`→ ${block.name} ${truncate(JSON.stringify(block.input))}`))
+            }
+        }
+    } else if (message.type === 'user' && Array.isArray(message.message.content)) {
+        for (const block of message.message.content as { type: string; is_error?: boolean; content?: unknown }[]) {
+            if (block.type === 'tool_result' && block.is_error) {
+                const content =
+                    typeof block.content === 'string' ? block.content : JSON.stringify(block.content)
+                console.log(dim(`✗ ${truncate(content)}`))
+            }
+        }
+    } else if (message.type === 'result') {
+        if (message.subtype !== 'success') {
+            console.error(`Turn failed: ${message.errors.join('; ') || message.subtype}`)
+        }
+        console.log(dim(`(${message.num_turns} turns, $${message.total_cost_usd.toFixed(4)})`))
+    }
+}
+
+async function chat(flags: Flags) {
+    const client = await connect(flags, { model: flags.model })
+    if (!hasSharedWorkspace(client)) console.error(dim(`Warning: ${ISOLATED_WORKSPACE_ERROR}`))
+    console.log(dim('Connected. Type a message, Ctrl-C to interrupt a turn, Ctrl-D to exit.'))
+
+    const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: '> ' })
+    // Input can end (Ctrl-D, or the end of piped input) while a turn is still running
+    let inputClosed = false
+    rl.on('close', () => {
+        inputClosed = true
+    })
+    let turn: AbortController | null = null
+    const onInterrupt = () => {
+        if (turn) {
+            turn.abort()
+            console.log(dim('Interrupting...'))
+        } else {
+            rl.close()
+        }
+    }
+    rl.on('SIGINT', onInterrupt)
+    process.on('SIGINT', onInterrupt)
+
+    rl.prompt()
+    try {
+        for await (const line of rl) {
+            const prompt = line.trim()
+            if (prompt === '/exit') break
+            if (prompt) {
+                turn = new AbortController()
+                try {
+                    for await (const message of client.query(prompt, { signal: turn.signal })) {
+                        printMessage(message)
+                    }
+                } catch (err) {
+                    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`)
+                }
+                turn = null
+            }
+            if (inputClosed) break
+            rl.prompt()
+        }
+    } finally {
+        process.off('SIGINT', onInterrupt)
+        rl.close()
+        await client.stop({ delete: !flags.keep })
+    }
+}
+
+// Every entry under a workspace directory, following `nextCursor` across pages
+async function listAll(client: CastariClient, path: string, recursive: boolean) {
+    const entries: FileEntry[] = []
+    let cursor: string | undefined
+    do {
+        const page = await client.listFileEntries(path, { recursive, cursor })
+        entries.push(...page.entries)
+        cursor = page.nextCursor
+    } while (cursor)
+    return entries
+}
+
+async function* walk(directory: string): AsyncGenerator<string> {
+    for (const entry of await readdir(directory, { withFileTypes: true })) {
+        const path = join(directory, entry.name)
+        if (entry.isDirectory()) {
+            yield* walk(path)
+        } else if (entry.isFile()) {
+            yield path
+        }
+    }
+}
+
+// Files go through the chunked transfer API, so their size is not limited by the WebSocket frame size
+async function uploadFile(client: CastariClient, local: string, remote: string) {
+    const { size } = await stat(local)
+    await client.upload(remote, Bun.file(local).stream(), { totalBytes: size })
+}
+
+async function push(client: CastariClient, local: string, remote: string | undefined) {
+    const target = remote ?? basename(resolve(local))
+    if (!(await stat(local)).isDirectory()) {
+        await uploadFile(client, local, target)
+        console.log(`${local} → ${target}`)
+        return
+    }
+    let count = 0
+    for await (const path of walk(local)) {
+        const destination = posix.join(target, relative(local, path).split('\\').join('/'))
+        await uploadFile(client, path, destination)
+        console.log(dim(`${path} → ${destination}`))
+        count++
+    }
+    console.log(`Pushed ${count} files to ${target}`)
+}
+
+async function pull(client: CastariClient, remote: string, local: string | undefined) {
+    const name = posix.basename(remote)
+    const isRoot = name === '' || name === '.'
+    const parent = isRoot
+        ? null
+        : (await listAll(client, posix.dirname(remote), false)).find(entry => entry.path === name)
+    if (!isRoot && !parent) throw new Error(`${remote} does not exist in the workspace`)
+
+    const target = local ?? (isRoot ? '.' : name)
+    const download = async (path: string, destination: string) => {
+        await mkdir(dirname(destination), { recursive: true })
+        await Bun.write(destination, new Response(client.download(path)))
+    }
+
+    if (parent?.type === 'file') {
+        await download(remote, target)
+        console.log(`${remote} → ${target}`)
+        return
+    }
+    let count = 0
+    for (const entry of await listAll(client, remote, true)) {
+        if (entry.type !== 'file') continue
+        const destination = join(target, ...entry.path.split('/'))
+        await download(posix.join(remote, entry.path), destination)
+        console.log(dim(`${entry.path} → ${destination}`))
+        count++
+    }
+    console.log(`Pulled ${count} files to ${target}`)
+}
+
+async function files(args: string[], flags: Flags) {
+    const [subcommand, first, second] = args
+    if (subcommand !== 'ls' && subcommand !== 'push' && subcommand !== 'pull') {
+        throw new UsageError('files needs a subcommand: ls, push or pull')
+    }
+    if (subcommand !== 'ls' && !first) {
+        throw new UsageError(`files ${subcommand} needs a source path`)
+    }
+
+    const client = await connect(flags)
+    try {
+        if (!hasSharedWorkspace(client)) throw new Error(ISOLATED_WORKSPACE_ERROR)
+        if (subcommand === 'ls') {
+            for (const entry of await listAll(client, first ?? '.', !!flags.recursive)) {
+                const size = entry.type === 'directory' ? '-' : String(entry.size)
+                console.log(`${size.padStart(10)}  ${entry.path}${entry.type === 'directory' ? '/' : ''}`)
+            }
+        } else if (subcommand === 'push') {
+            await push(client, first, second)
+        } else {
+            await pull(client, first, second)
+        }
+    } finally {
+        // The files are the point, so a platform sandbox is kept for the next command
+        await client.stop({ delete: false })
+    }
+}
+
+async function main(argv: string[]) {
+    const { values: flags, positionals } = parse(argv)
+    const [command, ...args] = positionals
+    if (flags.help || !command) {
+        console.log(USAGE)
+        return
+    }
+    if (command === 'dev') return dev(args[0], flags)
+    if (command === 'chat') return chat(flags)
+    if (command === 'files') return files(args, flags)
+    throw new UsageError(`Unknown command: ${command}`)
+}
+
+main(process.argv.slice(2)).catch(err => {
+    console.error(err instanceof Error ? err.message : String(err))
+    if (err instanceof UsageError || (err as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS')) {
+        console.error(`\n${USAGE}`)
+    }
+    process.exit(1)
+})
@@ -0,0 +1,158 @@
+import { randomUUID } from 'crypto'
+import { tool } from '@anthropic-ai/claude-agent-sdk'
+import { z, type ZodRawShape, type ZodTypeAny } from 'zod'
+
+import { type ConfigFieldError } from './config-validation'
+import { CLIENT_TOOL_TIMEOUT_MS } from './const'
+import {
+    type ClientToolDefinition,
+    type ClientToolResult,
+    type JSONSchema,
+    type JSONSchemaType,
+    type WSOutputMessage,
+} from './types'
+
+export type ClientToolBrokerOptions = {
+    emit: (message: WSOutputMessage) => void
+    /** How long to wait for the client's `tool_result`. Defaults to 60s. */
+    timeoutMs?: number
+}
+
+export type ClientToolBroker = {
+    /** Send a `tool_call` to the client and wait for its result */
+    call: (name: string, input: Record<string, unknown>) => Promise<ClientToolResult>
+    /** Settle a pending call with the client's result. Returns false for unknown IDs. */
+    resolve: (callId: string, result: ClientToolResult) => boolean
+    /** Fail every pending call with `message` (e.g. when the stream ends) */
+    cancelAll: (message: string) => void
+}
+
+const errorResult = (text: string): ClientToolResult => ({
+    content: [{ type: 'text', text }],
+    isError: true,
+})
+
+export function createClientToolBroker(options: ClientToolBrokerOptions): ClientToolBroker {
+    const timeoutMs = options.timeoutMs ?? CLIENT_TOOL_TIMEOUT_MS
+    const pending = new Map<string, (result: ClientToolResult) => void>()
+
+    const settle = (callId: string, result: ClientToolResult) => {
+        const resolve = pending.get(callId)
+        if (!resolve) return false
+        pending.delete(callId)
+        resolve(result)
+        return true
+    }
+
+    return {
+        call: (name, input) =>
+            new Promise<ClientToolResult>(resolve => {
+                const callId = randomUUID()
+                const timer = setTimeout(
+                    () => settle(callId, errorResult(`Client tool ${name} timed out after ${timeoutMs}ms`)),
+                    timeoutMs,
+                )
+                pending.set(callId, result => {
+                    clearTimeout(timer)
+                    resolve(result)
+                })
+                options.emit({ type: 'tool_call', callId, name, input })
+            }),
+        resolve: settle,
+        cancelAll: message => {
+            for (const callId of [...pending.keys()]) {
+                settle(callId, errorResult(message))
+            }
+        },
+    }
+}
+
+function typeToZod(type: JSONSchemaType, schema: JSONSchema): ZodTypeAny {
+    switch (type) {
+        case 'object': {
+            const object = z.object(objectShape(schema))
+            return schema.additionalProperties === false ? object.strict() : object.passthrough()
+        }
+        case 'array':
+            return z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown())
+        case 'string':
+            return z.string()
+        case 'number':
+            return z.number()
+        case 'integer':
+            return z.number().int()
+        case 'boolean':
+            return z.boolean()
+        case 'null':
+            return z.null()
+    }
+}
+
+// z.union() needs at least two members
+function union(types: ZodTypeAny[]): ZodTypeAny {
+    if (types.length === 0) return z.never()
+    if (types.length === 1) return types[0]
+    return z.union(types as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]])
+}
+
+const literal = (value: unknown) => z.literal(value as z.Primitive)
+
+/** Convert the supported subset of JSON Schema (see `JSONSchema`) to a zod type */
+export function jsonSchemaToZod(schema: JSONSchema): ZodTypeAny {
+    let type: ZodTypeAny
+    if (schema.const !== undefined) {
+        type = literal(schema.const)
+    } else if (schema.enum) {
+        type = union(schema.enum.map(literal))
+    } else if (schema.anyOf || schema.oneOf) {
+        type = union((schema.anyOf ?? schema.oneOf)!.map(jsonSchemaToZod))
+    } else if (Array.isArray(schema.type)) {
+        type = union(schema.type.map(member => typeToZod(member, schema)))
+    } else if (schema.type) {
+        type = typeToZod(schema.type, schema)
+    } else {
+        type = schema.properties ? typeToZod('object', schema) : z.unknown()
+    }
+    return schema.description ? type.describe(schema.description) : type
+}
+
+function objectShape(schema: JSONSchema): ZodRawShape {
+    const required = new Set(schema.required ?? [])
+    return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => {
+            const type = jsonSchemaToZod(property)
+            return [key, required.has(key) ? type : type.optional()]
+        }),
+    )
+}
+
+/**
+ * Build the MCP tools that stand in for the client's tools: each call is forwarded to the
+ * client as a `tool_call` and answered with its `tool_result`.
+ */
+export function createClientTools(
+    definitions: ClientToolDefinition[],
+    broker: ClientToolBroker,
+): ReturnType<typeof tool>[] {
+    return definitions.map(definition =>
+        tool(
+            definition.name,
+            definition.description,
+            objectShape(definition.inputSchema),
+            async input => broker.call(definition.name, input),
+        ),
+    )
+}
+
+/** Client tools that would shadow one of the server's tools in the `castari-agent` MCP server */
+export function findToolConflicts(
+    definitions: ClientToolDefinition[] = [],
+    serverTools: { name: string }[] = [],
+): ConfigFieldError[] {
+    const serverNames = new Set(serverTools.map(serverTool => serverTool.name))
+    return definitions.flatMap((definition, index) =>
+        serverNames.has(definition.name)
+            ? [{ field: `clientTools[${index}].name`, message: 'is already a server tool' }]
+            : [],
+    )
+}
@@ -0,0 +1,182 @@
+import { type QueryConfig } from './types'
+
+export type ConfigFieldError = {
+    /** Path of the offending field, e.g. `agents.reviewer.tools[1]` */
+    field: string
+    message: string
+}
+
+export type ConfigValidationResult =
+    | { ok: true; config: QueryConfig }
+    | { ok: false; errors: ConfigFieldError[] }
+
+const AGENT_MODELS = ['sonnet', 'opus', 'haiku', 'inherit']
+const PERMISSION_MODES = ['default', 'acceptEdits', 'bypassPermissions', 'plan']
+// MCP tool names: letters, digits, `_` and `-`
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/
+
+// Placeholder returned instead of secrets when configs are echoed back
+export const REDACTED = '[REDACTED]'
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function checkString(value: unknown, field: string, errors: ConfigFieldError[]) {
+    if (typeof value !== 'string') {
+        errors.push({ field, message: 'must be a string' })
+    }
+}
+
+function checkStringArray(value: unknown, field: string, errors: ConfigFieldError[]) {
+    if (!Array.isArray(value)) {
+        errors.push({ field, message: 'must be an array of strings' })
+        return
+    }
+    value.forEach((item, index) => checkString(item, `${field}[${index}]`, errors))
+}
+
+function checkUnknownFields(
+    value: Record<string, unknown>,
+    allowed: string[],
+    prefix: string,
+    errors: ConfigFieldError[],
+) {
+    for (const key of Object.keys(value)) {
+        if (!allowed.includes(key)) {
+            errors.push({ field: `${prefix}${key}`, message: 'is not a recognized field' })
+        }
+    }
+}
+
+const validators: Record<
+    keyof QueryConfig,
+    (value: unknown, field: string, errors: ConfigFieldError[]) => void
+> = {
+    agents(value, field, errors) {
+        if (!isObject(value)) {
+            errors.push({ field, message: 'must be an object of agent definitions' })
+            return
+        }
+        for (const [name, agent] of Object.entries(value)) {
+            const agentField = `${field}.${name}`
+            if (!isObject(agent)) {
+                errors.push({ field: agentField, message: 'must be an object' })
+                continue
+            }
+            checkUnknownFields(
+                agent,
+                ['description', 'prompt', 'tools', 'disallowedTools', 'model'],
+                `${agentField}.`,
+                errors,
+            )
+            checkString(agent.description, `${agentField}.description`, errors)
+            checkString(agent.prompt, `${agentField}.prompt`, errors)
+            if (agent.tools !== undefined) {
+                checkStringArray(agent.tools, `${agentField}.tools`, errors)
+            }
+            if (agent.disallowedTools !== undefined) {
+                checkStringArray(agent.disallowedTools, `${agentField}.disallowedTools`, errors)
+            }
+            if (agent.model !== undefined && !AGENT_MODELS.includes(agent.model as string)) {
+                errors.push({
+                    field: `${agentField}.model`,
+                    message: `must be one of ${AGENT_MODELS.join(', ')}`,
+                })
+            }
+        }
+    },
+    allowedTools: checkStringArray,
+    systemPrompt(value, field, errors) {
+        if (typeof value === 'string') return
+        if (!isObject(value) || value.type !== 'preset' || value.preset !== 'claude_code') {
+            errors.push({
+                field,
+                message: "must be a string or { type: 'preset', preset: 'claude_code', append?: string }",
+            })
+            return
+        }
+        checkUnknownFields(value, ['type', 'preset', 'append'], `${field}.`, errors)
+        if (value.append !== undefined) {
+            checkString(value.append, `${field}.append`, errors)
+        }
+    },
+    model: checkString,
+    permissionMode(value, field, errors) {
+        if (!PERMISSION_MODES.includes(value as string)) {
+            errors.push({ field, message: `must be one of ${PERMISSION_MODES.join(', ')}` })
+        }
+    },
+    clientTools(value, field, errors) {
+        if (!Array.isArray(value)) {
+            errors.push({ field, message: 'must be an array of tool definitions' })
+            return
+        }
+        const names = new Set<string>()
+        value.forEach((definition, index) => {
+            const toolField = `${field}[${index}]`
+            if (!isObject(definition)) {
+                errors.push({ field: toolField, message: 'must be an object' })
+                return
+            }
+            checkUnknownFields(definition, ['name', 'description', 'inputSchema'], `${toolField}.`, errors)
+            if (typeof definition.name !== 'string' || !TOOL_NAME_PATTERN.test(definition.name)) {
+                errors.push({
+                    field: `${toolField}.name`,
+                    message: 'must be 1-64 letters, digits, underscores or hyphens',
+                })
+            } else if (names.has(definition.name)) {
+                errors.push({ field: `${toolField}.name`, message: 'is used by another client tool' })
+            } else {
+                names.add(definition.name)
+            }
+            checkString(definition.description, `${toolField}.description`, errors)
+            const schema = definition.inputSchema
+            if (!isObject(schema) || (schema.type !== undefined && schema.type !== 'object')) {
+                errors.push({
+                    field: `${toolField}.inputSchema`,
+                    message: "must be a JSON Schema with type 'object'",
+                })
+            } else if (schema.properties !== undefined && !isObject(schema.properties)) {
+                errors.push({
+                    field: `${toolField}.inputSchema.properties`,
+                    message: 'must be an object of property schemas',
+                })
+            }
+        })
+    },
+    anthropicApiKey: checkString,
+    resume: checkString,
+}
+
+/**
+ * Validate a `POST /config` body against `QueryConfig`, collecting every field-level problem.
+ * `null` values are treated as absent.
+ */
+export function validateQueryConfig(value: unknown): ConfigValidationResult {
+    if (!isObject(value)) {
+        return { ok: false, errors: [{ field: '', message: 'must be a JSON object' }] }
+    }
+
+    const errors: ConfigFieldError[] = []
+    const config: Record<string, unknown> = {}
+    for (const [key, fieldValue] of Object.entries(value)) {
+        if (fieldValue === undefined || fieldValue === null) continue
+        // Own keys only: `toString`, `__proto__` and friends are not config fields
+        const validate = Object.hasOwn(validators, key)
+            ? validators[key as keyof QueryConfig]
+            : undefined
+        if (!validate) {
+            errors.push({ field: key, message: 'is not a recognized field' })
+            continue
+        }
+        validate(fieldValue, key, errors)
+        config[key] = fieldValue
+    }
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, config: config as QueryConfig }
+}
+
+/** A copy of the config that is safe to return to callers */
+export function redactConfig(config: QueryConfig): QueryConfig {
+    return config.anthropicApiKey ? { ...config, anthropicApiKey: REDACTED } : config
+}
@@ -5,8 +5,54 @@
 // Server configuration
 export const SERVER_PORT = 3000
 
+// Graceful shutdown: how long `stop()` waits for in-flight operations before closing sockets
+export const SHUTDOWN_TIMEOUT_MS = 10 * 1000
+
 // Workspace configuration
 export const WORKSPACE_DIR_NAME = 'agent-workspace'
 
 // Connection token (one-time) configuration
 export const CONNECTION_TOKEN_TTL_MS = 5 * 60 * 1000 // 5 minutes
+
+// Reconnect configuration
+export const REPLAY_BUFFER_SIZE = 1000 // Output messages kept for replay after a reconnect
+
+// Permission requests delegated to the client
+export const PERMISSION_REQUEST_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes
+
+// Tool calls proxied to the client's own tools
+export const CLIENT_TOOL_TIMEOUT_MS = 60 * 1000 // The agent SDK closes MCP calls after 60s by default
+
+// Session configuration
+export const MAX_SESSIONS = 10 // Concurrent sessions per server unless `maxSessions` is set
+export const SESSIONS_DIR_NAME = 'sessions' // Per-session workspaces live under <workspace>/sessions/<id>
+export const SESSION_IDLE_TIMEOUT_MS = 10 * 60 * 1000 // Disconnected sessions are closed after 10 minutes
+export const SESSION_SWEEP_INTERVAL_MS = 60 * 1000
+export const MESSAGE_QUEUE_MAX_DEPTH = 100 // Queued user messages per session unless `maxQueueDepth` is set
+export const STATE_DIR_NAME = '.castari' // Server state in the workspace root; always denied to clients
+
+// Chunked transfer configuration
+export const TRANSFER_CHUNK_SIZE = 256 * 1024 // 256 KiB per chunk
+export const TRANSFER_WINDOW = 8 // Chunks in flight before waiting for an acknowledgement
+export const TRANSFER_PARTIAL_SUFFIX = '.castari-partial' // Incomplete uploads, kept for resuming
+
+// File watching configuration
+export const FILE_WATCH_DEBOUNCE_MS = 100
+
+// Transcript configuration
+export const TRANSCRIPTS_DIR_NAME = `${STATE_DIR_NAME}/transcripts` // Relative to the workspace root
+export const TRANSCRIPT_MAX_FILES = 5 // Rotated transcripts kept per session when `maxBytes` is set
+
+// Checkpoint configuration
+export const CHECKPOINTS_DIR_NAME = `${STATE_DIR_NAME}/checkpoints` // Relative to the workspace root; one git directory per session
+export const CHECKPOINT_MAX_DIFF_BYTES = 64 * 1024 * 1024 // Largest git output read for a diff
+
+// Local subprocess sandbox provider
+export const LOCAL_PROVIDER_READY_TIMEOUT_MS = 30 * 1000 // Wait for the agent's /health to answer
+export const LOCAL_PROVIDER_STOP_TIMEOUT_MS = 5 * 1000 // Grace period between SIGTERM and SIGKILL
+
+// Attachments sent with `sendMessage()`; larger images and PDFs are uploaded instead of inlined
+export const ATTACHMENT_MAX_IMAGE_BYTES = 5 * 1024 * 1024 // The API's limit per image
+export const ATTACHMENT_MAX_INLINE_BYTES = 10 * 1024 * 1024 // Per message; base64 keeps it under the 16 MiB WebSocket frame limit
+export const ATTACHMENT_MAX_BYTES = 100 * 1024 * 1024 // Per attachment unless `maxAttachmentBytes` is set
+export const ATTACHMENT_UPLOAD_DIR = 'uploads' // Relative to the workspace root
@@ -0,0 +1,251 @@
+import type { FileOperation, WSErrorCode } from './types'
+
+export type CastariRequestErrorCode =
+    /** The server did not answer before the request timed out */
+    | 'timeout'
+    /** The request could not be sent because the WebSocket is not open */
+    | 'not_connected'
+    /** The connection closed before the server answered */
+    | 'disconnected'
+    /** The server answered with an `error` message */
+    | 'operation_failed'
+    /** The message was taken back (`cancelMessage`/`clearQueue`) before the agent started it */
+    | 'cancelled'
+    /** A specific server-side failure, e.g. the workspace path policy rejected the path */
+    | WSErrorCode
+
+export type CastariFileErrorCode = CastariRequestErrorCode
+
+/**
+ * Error raised by the promise-based request methods on `CastariClient`.
+ */
+export class CastariRequestError extends Error {
+    readonly code: CastariRequestErrorCode
+    readonly operation: string
+    readonly requestId?: string
+
+    constructor(
+        message: string,
+        details: {
+            code: CastariRequestErrorCode
+            operation: string
+            requestId?: string
+        },
+    ) {
+        super(message)
+        this.name = 'CastariRequestError'
+        this.code = details.code
+        this.operation = details.operation
+        this.requestId = details.requestId
+    }
+}
+
+/**
+ * Error raised by the promise-based file API on `CastariClient`.
+ */
+export class CastariFileError extends CastariRequestError {
+    declare readonly operation: FileOperation | 'watch_files'
+    readonly path?: string
+
+    constructor(
+        message: string,
+        details: {
+            code: CastariFileErrorCode
+            operation: FileOperation | 'watch_files'
+            path?: string
+            requestId?: string
+        },
+    ) {
+        super(message, details)
+        this.name = 'CastariFileError'
+        this.path = details.path
+    }
+}
+
+export type WorkspacePathErrorCode =
+    /** The path resolves (lexically or through a symlink) outside the workspace */
+    | 'path_outside_workspace'
+    /** The path matches one of the server's denied globs */
+    | 'path_denied'
+    /** The path matches one of the server's read-only globs and the operation writes */
+    | 'path_read_only'
+
+/**
+ * Raised on the server when a file operation targets a path the workspace policy rejects.
+ */
+export class WorkspacePathError extends Error {
+    readonly code: WorkspacePathErrorCode
+    readonly path: string
+
+    constructor(code: WorkspacePathErrorCode, path: string, message: string) {
+        super(message)
+        this.name = 'WorkspacePathError'
+        this.code = code
+        this.path = path
+    }
+}
+
+export type ConfigErrorCode =
+    /** A mid-session config change failed validation; nothing was applied */
+    'invalid_config'
+
+export type ProtocolErrorCode =
+    /** The frame is not JSON, or not an object with a string `type` */
+    | 'malformed_message'
+    /** The message's `type` is not part of the protocol version the receiver speaks */
+    | 'unknown_message_type'
+    /** A known message type with missing or mistyped fields */
+    | 'invalid_message'
+    /** Client and server speak different protocol versions */
+    | 'protocol_mismatch'
+    /** The server does not support a feature the client tried to use */
+    | 'unsupported_capability'
+
+/**
+ * Error raised by `CastariClient` when the server speaks another protocol version, lacks a
+ * capability the client needs, or sends a message that does not match the protocol.
+ */
+export class CastariProtocolError extends Error {
+    readonly code: ProtocolErrorCode
+    /** `type` of the offending message, when it had one */
+    readonly messageType?: string
+
+    constructor(message: string, details: { code: ProtocolErrorCode; messageType?: string }) {
+        super(message)
+        this.name = 'CastariProtocolError'
+        this.code = details.code
+        this.messageType = details.messageType
+    }
+}
+
+export type QueueErrorCode =
+    /** The session's message queue is at its maximum depth; retry once messages have started */
+    | 'queue_full'
+    /** `cancel_message` named a message that is not queued (unknown, or already started) */
+    | 'message_not_found'
+
+export type AttachmentErrorCode =
+    /** The attachment is larger than `maxAttachmentBytes` */
+    | 'attachment_too_large'
+    /** The attachment could not be read, e.g. a missing file or a path in a browser */
+    | 'attachment_unreadable'
+
+/**
+ * Error raised by `CastariClient.sendMessage()` before anything is sent.
+ */
+export class CastariAttachmentError extends Error {
+    readonly code: AttachmentErrorCode
+    /** Name of the offending attachment */
+    readonly fileName: string
+
+    constructor(message: string, details: { code: AttachmentErrorCode; fileName: string }) {
+        super(message)
+        this.name = 'CastariAttachmentError'
+        this.code = details.code
+        this.fileName = details.fileName
+    }
+}
+
+export type CheckpointErrorCode =
+    /** No checkpoint with that ID exists in the session */
+    | 'checkpoint_not_found'
+    /** Checkpoints are disabled on the server, or `git` is not available */
+    | 'checkpoints_unavailable'
+    /** A restore was requested while the agent is working; interrupt the turn first */
+    | 'turn_in_progress'
+
+export type TransferErrorCode =
+    /** No transfer with that ID is in progress on the server */
+    | 'transfer_not_found'
+    /** A chunk's SHA-256 did not match its data */
+    | 'transfer_checksum_mismatch'
+    /** A chunk arrived at an unexpected offset */
+    | 'transfer_offset_mismatch'
+    /** The finished upload did not have the announced size */
+    | 'transfer_size_mismatch'
+    /** A transfer was started with the ID of one that is still in progress */
+    | 'transfer_in_progress'
+
+/**
+ * Error raised by `CastariClient.upload()` and `CastariClient.download()`.
+ */
+export class CastariTransferError extends Error {
+    readonly code: CastariFileErrorCode
+    readonly transferId: string
+    readonly path: string
+
+    constructor(
+        message: string,
+        details: {
+            code: CastariFileErrorCode
+            transferId: string
+            path: string
+        },
+    ) {
+        super(message)
+        this.name = 'CastariTransferError'
+        this.code = details.code
+        this.transferId = details.transferId
+        this.path = details.path
+    }
+}
+
+export type CastariPlatformErrorCode =
+    /** The client ID or API key was missing, wrong or not allowed to do this (401/403) */
+    | 'unauthorized'
+    /** The account hit a sandbox or usage limit (402/429) */
+    | 'quota_exceeded'
+    /** No sandbox with that ID belongs to the client (404) */
+    | 'not_found'
+    /** Any other failure, including the platform being unreachable */
+    | 'request_failed'
+
+/**
+ * Error raised by calls to the Castari platform, e.g. `CastariPlatform` or a platform
+ * sandbox provider's `start()`.
+ */
+export class CastariPlatformError extends Error {
+    readonly code: CastariPlatformErrorCode
+    /** HTTP status of the platform's response, if it answered */
+    readonly status?: number
+    /** The platform endpoint, e.g. `'sandbox/start'` */
+    readonly operation: string
+    readonly sandboxId?: string
+
+    constructor(
+        message: string,
+        details: {
+            code: CastariPlatformErrorCode
+            operation: string
+            status?: number
+            sandboxId?: string
+        },
+    ) {
+        super(message)
+        this.name = 'CastariPlatformError'
+        this.code = details.code
+        this.status = details.status
+        this.operation = details.operation
+        this.sandboxId = details.sandboxId
+    }
+
+    /** The error for a platform response that was not ok */
+    static async fromResponse(
+        response: Response,
+        details: { operation: string; sandboxId?: string },
+    ): Promise<CastariPlatformError> {
+        const code: CastariPlatformErrorCode =
+            response.status === 401 || response.status === 403
+                ? 'unauthorized'
+                : response.status === 402 || response.status === 429
+                    ? 'quota_exceeded'
+                    : response.status === 404
+                        ? 'not_found'
+                        : 'request_failed'
+        const errorText = await response.text().catch(() => '')
+        return new CastariPlatformError(
+            `Platform request ${details.operation} failed (status ${response.status}): ${errorText}`,
+            { ...details, code, status: response.status },
+        )
+    }
+}
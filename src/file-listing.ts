@@ -0,0 +1,142 @@
+import { lstat, readdir, readFile } from 'fs/promises'
+import { join } from 'path'
+import { Glob } from 'bun'
+
+import { type PathPolicy } from './path-policy'
+import { type FileEntry, type ListFilesOptions } from './types'
+
+type IgnoreRule = {
+    /** Directory (relative to the listed directory) containing the `.gitignore` */
+    base: string
+    glob: Glob
+    negated: boolean
+    directoryOnly: boolean
+}
+
+export type FileListing = {
+    entries: FileEntry[]
+    nextCursor?: string
+}
+
+// Translate `.gitignore` lines into globs relative to the directory holding the file
+function parseGitignore(content: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = []
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.trimEnd()
+        if (!line || line.startsWith('#')) continue
+
+        const negated = line.startsWith('!')
+        if (negated) line = line.slice(1)
+        const directoryOnly = line.endsWith('/')
+        if (directoryOnly) line = line.slice(0, -1)
+        // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+        const anchored = line.includes('/')
+        if (line.startsWith('/')) line = line.slice(1)
+        if (!line) continue
+
+        rules.push({
+            base,
+            glob: new Glob(anchored ? line : `**/${line}`),
+            negated,
+            directoryOnly,
+        })
+    }
+    return rules
+}
+
+function isIgnored(rules: IgnoreRule[], path: string, isDirectory: boolean) {
+    let ignored = false
+    // Later rules override earlier ones, so the last match decides
+    for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) continue
+        if (rule.base && !path.startsWith(`${rule.base}/`)) continue
+        const relativePath = rule.base ? path.slice(rule.base.length + 1) : path
+        if (rule.glob.match(relativePath)) {
+            ignored = !rule.negated
+        }
+    }
+    return ignored
+}
+
+function entryType(stats: Awaited<ReturnType<typeof lstat>>): FileEntry['type'] {
+    if (stats.isSymbolicLink()) return 'symlink'
+    if (stats.isDirectory()) return 'directory'
+    if (stats.isFile()) return 'file'
+    return 'other'
+}
+
+/**
+ * List a workspace directory (already resolved through the path policy), depth-first in
+ * name order so pages are stable. Symlinks are reported, not followed.
+ */
+export async function listFiles(
+    pathPolicy: PathPolicy,
+    directory: string,
+    options: ListFilesOptions = {},
+): Promise<FileListing> {
+    const maxDepth = options.recursive ? options.maxDepth ?? Infinity : 1
+    const include = (options.include ?? []).map(pattern => new Glob(pattern))
+    const exclude = (options.exclude ?? []).map(pattern => new Glob(pattern))
+    const offset = Math.max(0, Number.parseInt(options.cursor ?? '0', 10) || 0)
+    const limit = options.limit && options.limit > 0 ? options.limit : Infinity
+    const workspaceBase = pathPolicy.toRelative(directory)
+
+    const entries: FileEntry[] = []
+    let matched = 0
+    let hasMore = false
+
+    const walk = async (absolute: string, relative: string, depth: number, rules: IgnoreRule[]) => {
+        if (options.respectGitignore) {
+            const gitignore = await readFile(join(absolute, '.gitignore'), 'utf-8').catch(() => null)
+            if (gitignore !== null) {
+                rules = [...rules, ...parseGitignore(gitignore, relative)]
+            }
+        }
+
+        const names = (await readdir(absolute)).sort()
+        for (const name of names) {
+            if (hasMore) return
+            const path = relative ? `${relative}/${name}` : name
+            const workspacePath = workspaceBase ? `${workspaceBase}/${path}` : path
+            if (pathPolicy.isDenied(workspacePath)) continue
+
+            const absolutePath = join(absolute, name)
+            const stats = await lstat(absolutePath).catch(() => null)
+            if (!stats) continue
+            const type = entryType(stats)
+            const isDirectory = type === 'directory'
+
+            if (options.respectGitignore && (name === '.git' || isIgnored(rules, path, isDirectory))) {
+                continue
+            }
+            if (exclude.some(glob => glob.match(path))) continue
+
+            if (include.length === 0 || include.some(glob => glob.match(path))) {
+                if (matched >= offset) {
+                    if (entries.length >= limit) {
+                        hasMore = true
+                        return
+                    }
+                    entries.push({
+                        path,
+                        type,
+                        size: stats.size,
+                        mtime: stats.mtimeMs,
+                        mode: stats.mode,
+                    })
+                }
+                matched++
+            }
+
+            if (isDirectory && depth < maxDepth) {
+                await walk(absolutePath, path, depth + 1, rules)
+            }
+        }
+    }
+
+    await walk(directory, '', 1, [])
+    return {
+        entries,
+        nextCursor: hasMore ? String(offset + entries.length) : undefined,
+    }
+}
@@ -0,0 +1,185 @@
+import { watch, type FSWatcher } from 'fs'
+import { lstat } from 'fs/promises'
+import { join } from 'path'
+import { Glob } from 'bun'
+
+import { FILE_WATCH_DEBOUNCE_MS } from './const'
+import { WorkspacePathError } from './errors'
+import { listFiles } from './file-listing'
+import { type Logger } from './logger'
+import { type PathPolicy } from './path-policy'
+import {
+    type FileChange,
+    type FileEntry,
+    type WSInputMessage,
+    type WSOutputMessage,
+} from './types'
+
+export type FileWatcher = {
+    watch: (input: Extract<WSInputMessage, { type: 'watch_files' }>) => Promise<void>
+    unwatch: (subscriptionId: string) => void
+    closeAll: () => void
+}
+
+type KnownEntry = Pick<FileEntry, 'type' | 'size' | 'mtime'>
+
+type Subscription = {
+    watcher: FSWatcher
+    timer: ReturnType<typeof setTimeout> | null
+    pending: Set<string>
+    known: Map<string, KnownEntry>
+    flushing: Promise<void>
+}
+
+/**
+ * Watches workspace directories for one session and pushes debounced `file_changed`
+ * batches. Events are diffed against a snapshot of the tree, so each change is reported
+ * as created, modified or deleted regardless of how the OS reported it.
+ */
+export function createFileWatcher(options: {
+    send: (message: WSOutputMessage) => void
+    pathPolicy: PathPolicy
+    logger: Logger
+}): FileWatcher {
+    const { send, pathPolicy, logger } = options
+    const subscriptions = new Map<string, Subscription>()
+
+    const unwatch = (subscriptionId: string) => {
+        const subscription = subscriptions.get(subscriptionId)
+        if (!subscription) return
+        subscriptions.delete(subscriptionId)
+        subscription.watcher.close()
+        if (subscription.timer) clearTimeout(subscription.timer)
+    }
+
+    return {
+        async watch(input) {
+            const { subscriptionId } = input
+            try {
+                unwatch(subscriptionId)
+                const root = await pathPolicy.resolve(input.path || '.', 'read')
+                const workspaceBase = pathPolicy.toRelative(root)
+                const include = (input.include ?? []).map(pattern => new Glob(pattern))
+                const exclude = (input.exclude ?? []).map(pattern => new Glob(pattern))
+                const debounceMs = input.debounceMs ?? FILE_WATCH_DEBOUNCE_MS
+
+                const isVisible = (path: string) =>
+                    !pathPolicy.isDenied(workspaceBase ? `${workspaceBase}/${path}` : path) &&
+                    !exclude.some(glob => glob.match(path))
+                const isReported = (path: string) =>
+                    include.length === 0 || include.some(glob => glob.match(path))
+
+                // Snapshot the tree so later events can be classified
+                const known = new Map<string, KnownEntry>()
+                const { entries } = await listFiles(pathPolicy, root, {
+                    recursive: true,
+                    exclude: input.exclude,
+                })
+                for (const { path, type, size, mtime } of entries) {
+                    known.set(path, { type, size, mtime })
+                }
+
+                const flush = async (subscription: Subscription) => {
+                    const paths = [...subscription.pending]
+                    subscription.pending.clear()
+                    const changes: FileChange[] = []
+
+                    const record = (change: FileChange) => {
+                        if (isReported(change.path)) changes.push(change)
+                    }
+
+                    for (const path of paths) {
+                        if (!isVisible(path)) continue
+                        const stats = await lstat(join(root, path)).catch(() => null)
+                        const previous = known.get(path)
+
+                        if (!stats) {
+                            if (!previous) continue
+                            // A removed directory takes everything below it along
+                            for (const knownPath of [...known.keys()]) {
+                                if (knownPath === path || knownPath.startsWith(`${path}/`)) {
+                                    const entry = known.get(knownPath)!
+                                    known.delete(knownPath)
+                                    record({ kind: 'deleted', path: knownPath, type: entry.type })
+                                }
+                            }
+                            continue
+                        }
+
+                        const current: KnownEntry = {
+                            type: stats.isSymbolicLink()
+                                ? 'symlink'
+                                : stats.isDirectory()
+                                    ? 'directory'
+                                    : stats.isFile()
+                                        ? 'file'
+                                        : 'other',
+                            size: stats.size,
+                            mtime: stats.mtimeMs,
+                        }
+                        known.set(path, current)
+                        if (!previous) {
+                            record({ kind: 'created', path, type: current.type, size: current.size })
+                        } else if (
+                            current.type !== 'directory' &&
+                            (previous.size !== current.size || previous.mtime !== current.mtime)
+                        ) {
+                            record({ kind: 'modified', path, type: current.type, size: current.size })
+                        }
+                    }
+
+                    if (changes.length > 0 && subscriptions.get(subscriptionId) === subscription) {
+                        send({ type: 'file_changed', subscriptionId, changes })
+                    }
+                }
+
+                const subscription: Subscription = {
+                    watcher: watch(root, { recursive: true }, (_event, filename) => {
+                        if (!filename) return
+                        subscription.pending.add(filename.toString().split('\\').join('/'))
+                        if (subscription.timer) clearTimeout(subscription.timer)
+                        subscription.timer = setTimeout(() => {
+                            subscription.timer = null
+                            subscription.flushing = subscription.flushing
+                                .then(() => flush(subscription))
+                                .catch(error => logger.error('Failed to process file changes', { subscriptionId, error }))
+                        }, debounceMs)
+                    }),
+                    timer: null,
+                    pending: new Set(),
+                    known,
+                    flushing: Promise.resolve(),
+                }
+                // Running out of watches (EMFILE, ENOSPC) or losing the root ends the subscription
+                subscription.watcher.on('error', error => {
+                    if (subscriptions.get(subscriptionId) !== subscription) return
+                    logger.warn('File watcher failed', { subscriptionId, error })
+                    unwatch(subscriptionId)
+                    send({
+                        type: 'watch_stopped',
+                        subscriptionId,
+                        error: `Stopped watching files: ${error instanceof Error ? error.message : String(error)}`,
+                    })
+                })
+                subscriptions.set(subscriptionId, subscription)
+                send({ type: 'watch_started', subscriptionId })
+            } catch (err) {
+                send({
+                    type: 'error',
+                    error:
+                        err instanceof WorkspacePathError
+                            ? err.message
+                            : `Failed to watch files: ${err instanceof Error ? err.message : String(err)}`,
+                    code: err instanceof WorkspacePathError ? err.code : undefined,
+                    requestId: subscriptionId,
+                })
+            }
+        },
+        unwatch,
+        closeAll() {
+            for (const subscriptionId of [...subscriptions.keys()]) {
+                unwatch(subscriptionId)
+            }
+        },
+    }
+}
@@ -1,4 +1,6 @@
 export * from './types'
 export * from './server'
 export * from './client'
+export * from './query-backend'
+export * from './local-provider'
 export { tool } from '@anthropic-ai/claude-agent-sdk'
@@ -0,0 +1,143 @@
+import { spawn, type ChildProcess } from 'child_process'
+import { createServer } from 'net'
+
+import {
+    LOCAL_PROVIDER_READY_TIMEOUT_MS,
+    LOCAL_PROVIDER_STOP_TIMEOUT_MS,
+} from './const'
+import { createUrlProvider, type SandboxProvider } from './sandbox-providers'
+
+export type LocalProviderOptions = {
+    /** The agent entrypoint, i.e. the script that calls `serve()` */
+    entry: string
+    /** Runtime used to run `entry`. Defaults to the current one (`process.execPath`). */
+    command?: string
+    /** Extra arguments passed after `entry` */
+    args?: string[]
+    cwd?: string
+    /** Extra environment variables for the agent process */
+    env?: Record<string, string | undefined>
+    /** Port for the agent server (passed as `CASTARI_PORT`). A free port is picked by default. */
+    port?: number
+    /** How long to wait for `/health` to answer. Defaults to 30s. */
+    readyTimeoutMs?: number
+    /** How long `stop()` waits after SIGTERM before sending SIGKILL. Defaults to 5s. */
+    stopTimeoutMs?: number
+    /** Whether the agent's stdout and stderr are shown. Defaults to `'inherit'`. */
+    stdio?: 'inherit' | 'ignore'
+}
+
+export type LocalSandboxProvider = SandboxProvider & {
+    /** Port the agent server listens on, once started */
+    readonly port: number | undefined
+}
+
+// Ask the OS for a port that is free right now
+function findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = createServer()
+        server.unref()
+        server.on('error', reject)
+        server.listen(0, () => {
+            const address = server.address()
+            const port = typeof address === 'object' && address ? address.port : 0
+            server.close(() => resolve(port))
+        })
+    })
+}
+
+function waitForExit(child: ChildProcess, timeoutMs: number): Promise<boolean> {
+    if (child.exitCode !== null || child.signalCode !== null) return Promise.resolve(true)
+    return new Promise(resolve => {
+        const timer = setTimeout(() => resolve(false), timeoutMs)
+        child.once('exit', () => {
+            clearTimeout(timer)
+            resolve(true)
+        })
+    })
+}
+
+/**
+ * Runs the agent entrypoint as a child process on a free port, so a client can be developed
+ * or tested against a real `serve()` without the platform or a hand-started server.
+ * `start()` resolves once `/health` answers; `stop()` terminates the process. Node/Bun only.
+ */
+export function createLocalProvider(options: LocalProviderOptions): LocalSandboxProvider {
+    const readyTimeoutMs = options.readyTimeoutMs ?? LOCAL_PROVIDER_READY_TIMEOUT_MS
+    const stopTimeoutMs = options.stopTimeoutMs ?? LOCAL_PROVIDER_STOP_TIMEOUT_MS
+    let child: ChildProcess | null = null
+    let port: number | undefined
+
+    // Don't leave an orphaned agent behind if the parent exits without calling stop()
+    const killOnExit = () => {
+        child?.kill('SIGKILL')
+    }
+
+    const stop = async () => {
+        const current = child
+        if (!current) return
+        child = null
+        process.off('exit', killOnExit)
+        current.kill('SIGTERM')
+        if (!(await waitForExit(current, stopTimeoutMs))) {
+            current.kill('SIGKILL')
+            await waitForExit(current, stopTimeoutMs)
+        }
+    }
+
+    return {
+        get port() {
+            return port
+        },
+
+        async start() {
+            if (child) {
+                throw new Error('Local sandbox is already running')
+            }
+            port = options.port ?? (await findFreePort())
+            const url = `http://localhost:${port}`
+
+            const current = spawn(
+                options.command ?? process.execPath,
+                [options.entry, ...(options.args ?? [])],
+                {
+                    cwd: options.cwd,
+                    env: { ...process.env, ...options.env, CASTARI_PORT: String(port) },
+                    stdio: ['ignore', options.stdio ?? 'inherit', options.stdio ?? 'inherit'],
+                },
+            )
+            child = current
+            process.on('exit', killOnExit)
+
+            let exited: string | null = null
+            current.once('error', err => {
+                exited = err.message
+            })
+            current.once('exit', (code, signal) => {
+                exited ??= `exited with ${signal ?? `code ${code}`}`
+            })
+
+            const deadline = Date.now() + readyTimeoutMs
+            while (true) {
+                if (exited) {
+                    child = null
+                    process.off('exit', killOnExit)
+                    throw new Error(`Agent process ${exited} before becoming ready`)
+                }
+                const healthy = await fetch(`${url}/health`)
+                    .then(response => response.ok)
+                    .catch(() => false)
+                if (healthy) break
+                if (Date.now() > deadline) {
+                    await stop()
+                    throw new Error(`Agent did not become ready on ${url} within ${readyTimeoutMs}ms`)
+                }
+                await new Promise(resolve => setTimeout(resolve, 100))
+            }
+
+            return createUrlProvider(url).start()
+        },
+
+        stop,
+    }
+}
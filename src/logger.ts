@@ -0,0 +1,130 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/** Structured context attached to a log line, e.g. `{ sessionId }` */
+export type LogFields = Record<string, unknown>
+
+/**
+ * Where the SDK's logs go. Messages are plain sentences; details are passed as fields.
+ * Everything passed to a logger by the SDK has already been through `redact()`.
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void
+    info(message: string, fields?: LogFields): void
+    warn(message: string, fields?: LogFields): void
+    error(message: string, fields?: LogFields): void
+}
+
+export type LoggerOptions = {
+    /** Least severe level that is written. Defaults to `'info'`. */
+    level?: LogLevel
+    /** `'text'` (default) for people, `'json'` for one JSON object per line */
+    format?: 'text' | 'json'
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+// Placeholder written instead of secrets
+const REDACTED = '[REDACTED]'
+
+// Field names whose values are secrets: API keys, tokens, auth headers and signatures
+const SECRET_KEY_PATTERN =
+    /(api[-_]?key|token|secret|password|authorization|cookie|signature)$|^auth(headers|params)$/i
+
+// Secrets embedded in strings: query string credentials, bearer tokens and Anthropic keys
+const SECRET_STRING_PATTERNS: [RegExp, string][] = [
+    [/([?&][\w-]*(?:token|key|secret|signature)=)[^&\s"'#]+/gi, `$1${REDACTED}`],
+    [/(Bearer\s+)[\w.~+/-]+=*/gi, `$1${REDACTED}`],
+    [/sk-ant-[\w-]+/g, REDACTED],
+]
+
+const MAX_DEPTH = 8
+
+function redactString(value: string) {
+    return SECRET_STRING_PATTERNS.reduce(
+        (redacted, [pattern, replacement]) => redacted.replace(pattern, replacement),
+        value,
+    )
+}
+
+function redactValue(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') return redactString(value)
+    if (typeof value === 'function') return '[Function]'
+    if (typeof value === 'bigint') return value.toString()
+    if (typeof value !== 'object' || value === null) return value
+    if (seen.has(value)) return '[Circular]'
+    if (depth >= MAX_DEPTH) return '[Object]'
+    seen.add(value)
+
+    if (value instanceof Error) {
+        return {
+            name: value.name,
+            message: redactString(value.message),
+            ...(value.stack ? { stack: redactString(value.stack) } : {}),
+        }
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redactValue(item, depth + 1, seen))
+    }
+    return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+            key,
+            SECRET_KEY_PATTERN.test(key) && item !== undefined && item !== null
+                ? REDACTED
+                : redactValue(item, depth + 1, seen),
+        ]),
+    )
+}
+
+/**
+ * A copy of `value` that is safe to log: secret fields (API keys, tokens, `authHeaders`,
+ * `authParams`) are replaced, credentials in URLs and bearer headers are masked, errors
+ * become plain objects and functions or cycles are summarized.
+ */
+export function redact<T>(value: T): T {
+    return redactValue(value, 0, new WeakSet()) as T
+}
+
+/** Wrap a logger so every message and field it receives is redacted first */
+export function redactingLogger(logger: Logger): Logger {
+    const forward =
+        (level: LogLevel) =>
+            (message: string, fields?: LogFields) =>
+                logger[level](redactString(message), fields && redact(fields))
+    return {
+        debug: forward('debug'),
+        info: forward('info'),
+        warn: forward('warn'),
+        error: forward('error'),
+    }
+}
+
+/** A logger writing to the console, as text or as JSON lines */
+export function createLogger(options: LoggerOptions = {}): Logger {
+    const minimum = LEVELS.indexOf(options.level ?? 'info')
+    const write =
+        (level: LogLevel) =>
+            (message: string, fields?: LogFields) => {
+                if (LEVELS.indexOf(level) < minimum) return
+                const time = new Date().toISOString()
+                const hasFields = fields !== undefined && Object.keys(fields).length > 0
+                const line =
+                    options.format === 'json'
+                        ? JSON.stringify({ time, level, message, ...fields })
+                        : `${time} ${level.toUpperCase()} ${message}${hasFields ? ` ${JSON.stringify(fields)}` : ''}`
+                console[level](line)
+            }
+    return redactingLogger({
+        debug: write('debug'),
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error'),
+    })
+}
+
+/** A logger that drops everything */
+export const silentLogger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+}
@@ -1,31 +1,271 @@
-import { readdir, readFile, unlink, writeFile } from 'fs/promises'
-import { join } from 'path'
-import { query, type SDKUserMessage } from '@anthropic-ai/claude-agent-sdk'
-import { type ServerWebSocket } from 'bun'
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import { dirname } from 'path'
 
-import { type WSInputMessage, type WSOutputMessage } from './types'
+import { CheckpointError, type CheckpointStore } from './checkpoints'
+import { type ClientToolBroker } from './client-tools'
+import { redactConfig, validateQueryConfig } from './config-validation'
+import { WorkspacePathError } from './errors'
+import { listFiles } from './file-listing'
+import { type FileWatcher } from './file-watcher'
+import { type MessageQueue } from './message-queue'
+import { type PathPolicy } from './path-policy'
+import { type PermissionBroker } from './permissions'
+import { correlationId, parseInputMessage } from './protocol'
+import { type AgentQuery } from './query-backend'
+import { isTransferMessage, type TransferManager } from './transfers'
+import {
+    type QueryConfig,
+    type QueryConfigUpdate,
+    type StatusSnapshot,
+    type TranscriptEntry,
+    type WSInputMessage,
+    type WSOutputMessage,
+} from './types'
 
 export type MessageHandlerContext = {
-    messageQueue: SDKUserMessage[]
-    getActiveStream: () => ReturnType<typeof query> | null
+    send: (message: WSOutputMessage) => void
+    messageQueue: MessageQueue
+    getActiveStream: () => AgentQuery | null
     workspaceDirectory: string
+    pathPolicy: PathPolicy
+    permissions: PermissionBroker
+    clientTools: ClientToolBroker
+    transfers: TransferManager
+    fileWatcher: FileWatcher
+    getStatus: () => StatusSnapshot
+    /** Apply a mid-session config change; resolves with the session's new config */
+    updateConfig: (
+        changes: QueryConfigUpdate,
+    ) => Promise<{ config: QueryConfig; applied: 'live' | 'restart' }>
+    /** Called with every parsed input message, e.g. to record it in the transcript */
+    onInput: (input: WSInputMessage) => void
+    readTranscript: (since?: number) => Promise<TranscriptEntry[]>
+    /** Null when checkpoints are disabled */
+    checkpoints: CheckpointStore | null
+}
+
+function checkpointError(action: string, err: unknown, requestId?: string): WSOutputMessage {
+    if (err instanceof CheckpointError || err instanceof WorkspacePathError) {
+        return { type: 'error', error: err.message, code: err.code, requestId }
+    }
+    return {
+        type: 'error',
+        error: `Failed to ${action} checkpoint: ${err instanceof Error ? err.message : String(err)}`,
+        requestId,
+    }
+}
+
+function fileError(
+    action: string,
+    err: unknown,
+    requestId?: string,
+): WSOutputMessage {
+    if (err instanceof WorkspacePathError) {
+        return { type: 'error', error: err.message, code: err.code, requestId }
+    }
+    return {
+        type: 'error',
+        error: `Failed to ${action} file: ${err instanceof Error ? err.message : String(err)}`,
+        requestId,
+    }
 }
 
 export async function handleMessage(
-    ws: ServerWebSocket,
     message: string | Buffer,
     context: MessageHandlerContext,
 ) {
+    const {
+        send,
+        messageQueue,
+        getActiveStream,
+        pathPolicy,
+        permissions,
+        clientTools,
+        transfers,
+        fileWatcher,
+        getStatus,
+        updateConfig,
+        onInput,
+        readTranscript,
+        checkpoints,
+    } = context
+    const parsed = parseInputMessage(message.toString())
+    if (!parsed.ok) {
+        send({ type: 'error', error: parsed.error, code: parsed.code, requestId: parsed.requestId })
+        return
+    }
+    const input = parsed.message
     try {
-        const input = JSON.parse(message.toString()) as WSInputMessage
-        const { messageQueue, getActiveStream, workspaceDirectory } = context
+        onInput(input)
 
         if (input.type === 'user_message') {
-            messageQueue.push(input.data)
+            const queued = messageQueue.push(input.data, input.messageId)
+            if (queued) {
+                send({
+                    type: 'message_queued',
+                    messageId: queued.id,
+                    position: messageQueue.length,
+                })
+            } else {
+                send({
+                    type: 'error',
+                    error: 'Message queue is full',
+                    code: 'queue_full',
+                    requestId: input.messageId,
+                })
+            }
+        } else if (input.type === 'list_queue') {
+            send({ type: 'queue', messages: messageQueue.list(), requestId: input.requestId })
+        } else if (input.type === 'cancel_message') {
+            if (messageQueue.cancel(input.messageId)) {
+                send({
+                    type: 'messages_cancelled',
+                    messageIds: [input.messageId],
+                    requestId: input.requestId,
+                })
+            } else {
+                send({
+                    type: 'error',
+                    error: `Message ${input.messageId} is not queued`,
+                    code: 'message_not_found',
+                    requestId: input.requestId,
+                })
+            }
+        } else if (input.type === 'clear_queue') {
+            send({
+                type: 'messages_cancelled',
+                messageIds: messageQueue.clear(),
+                requestId: input.requestId,
+            })
         } else if (input.type === 'interrupt') {
-            getActiveStream()?.interrupt()
+            await getActiveStream()?.interrupt()
+        } else if (
+            input.type === 'set_model' ||
+            input.type === 'set_permission_mode' ||
+            input.type === 'update_config'
+        ) {
+            // `set_model` without a model goes back to the default, so its key is kept as-is
+            const changes: QueryConfigUpdate =
+                input.type === 'set_model'
+                    ? { model: input.model }
+                    : input.type === 'set_permission_mode'
+                        ? { permissionMode: input.mode }
+                        : input.config
+            const validation = validateQueryConfig(changes)
+            const invalid = !validation.ok
+                ? validation.errors.map(error => `${error.field}: ${error.message}`).join('; ')
+                : 'resume' in validation.config
+                    ? 'resume: cannot be changed mid-session'
+                    : null
+            if (!validation.ok || invalid) {
+                send({
+                    type: 'error',
+                    error: `Invalid config: ${invalid}`,
+                    code: 'invalid_config',
+                    requestId: input.requestId,
+                })
+                return
+            }
+
+            try {
+                const { config, applied } = await updateConfig(
+                    input.type === 'update_config' ? validation.config : changes,
+                )
+                send({
+                    type: 'config_updated',
+                    config: redactConfig(config),
+                    applied,
+                    requestId: input.requestId,
+                })
+            } catch (err) {
+                send({
+                    type: 'error',
+                    error: `Failed to update config: ${err instanceof Error ? err.message : String(err)}`,
+                    requestId: input.requestId,
+                })
+            }
+        } else if (input.type === 'get_status') {
+            send({ type: 'status', requestId: input.requestId, ...getStatus() })
+        } else if (input.type === 'get_transcript') {
+            try {
+                const entries = await readTranscript(input.since)
+                send({ type: 'transcript', entries, requestId: input.requestId })
+            } catch (err) {
+                send({
+                    type: 'error',
+                    error: `Failed to read transcript: ${err instanceof Error ? err.message : String(err)}`,
+                    requestId: input.requestId,
+                })
+            }
+        } else if (
+            input.type === 'list_checkpoints' ||
+            input.type === 'diff_checkpoint' ||
+            input.type === 'restore_checkpoint'
+        ) {
+            if (!checkpoints) {
+                send({
+                    type: 'error',
+                    error: 'Checkpoints are disabled on this server',
+                    code: 'checkpoints_unavailable',
+                    requestId: input.requestId,
+                })
+            } else if (input.type === 'list_checkpoints') {
+                try {
+                    send({ type: 'checkpoints', checkpoints: await checkpoints.list(), requestId: input.requestId })
+                } catch (err) {
+                    send(checkpointError('list', err, input.requestId))
+                }
+            } else if (input.type === 'diff_checkpoint') {
+                try {
+                    // Requested paths go through the path policy, and denied files are never shown
+                    const paths = await Promise.all(
+                        (input.paths ?? []).map(async path =>
+                            pathPolicy.toRelative(await pathPolicy.resolve(path, 'read')) || '.',
+                        ),
+                    )
+                    const files = await checkpoints.diff(input.checkpointId, paths)
+                    send({
+                        type: 'checkpoint_diff',
+                        checkpointId: input.checkpointId,
+                        files: files.filter(file => !pathPolicy.isDenied(file.path)),
+                        requestId: input.requestId,
+                    })
+                } catch (err) {
+                    send(checkpointError('diff', err, input.requestId))
+                }
+            } else if (messageQueue.current !== null) {
+                send({
+                    type: 'error',
+                    error: 'Cannot restore a checkpoint while the agent is working; interrupt the turn first',
+                    code: 'turn_in_progress',
+                    requestId: input.requestId,
+                })
+            } else {
+                try {
+                    const { backupCheckpointId } = await checkpoints.restore(input.checkpointId)
+                    send({
+                        type: 'checkpoint_restored',
+                        checkpointId: input.checkpointId,
+                        backupCheckpointId,
+                        requestId: input.requestId,
+                    })
+                } catch (err) {
+                    send(checkpointError('restore', err, input.requestId))
+                }
+            }
+        } else if (input.type === 'permission_response') {
+            permissions.resolve(input.requestId, input.decision)
+        } else if (input.type === 'tool_result') {
+            const { type, callId, ...result } = input
+            clientTools.resolve(callId, result)
+        } else if (isTransferMessage(input)) {
+            await transfers.handle(input)
+        } else if (input.type === 'watch_files') {
+            await fileWatcher.watch(input)
+        } else if (input.type === 'unwatch_files') {
+            fileWatcher.unwatch(input.subscriptionId)
+            send({ type: 'watch_stopped', subscriptionId: input.subscriptionId })
         } else if (input.type === 'create_file') {
-            const targetPath = join(workspaceDirectory, input.path)
             const encoding = input.encoding || 'utf-8'
             const content =
                 encoding === 'base64'
@@ -33,94 +273,72 @@ export async function handleMessage(
                     : input.content
 
             try {
+                const targetPath = await pathPolicy.resolve(input.path, 'write')
+                await mkdir(dirname(targetPath), { recursive: true })
                 await writeFile(targetPath, content)
-                ws.send(
-                    JSON.stringify({
-                        type: 'file_result',
-                        operation: 'create_file',
-                        result: 'success',
-                    } as WSOutputMessage),
-                )
+                send({
+                    type: 'file_result',
+                    operation: 'create_file',
+                    result: 'success',
+                    requestId: input.requestId,
+                })
             } catch (err) {
-                ws.send(
-                    JSON.stringify({
-                        type: 'error',
-                        error: `Failed to create file: ${err instanceof Error ? err.message : String(err)}`,
-                    } as WSOutputMessage),
-                )
+                send(fileError('create', err, input.requestId))
             }
         } else if (input.type === 'read_file') {
-            const targetPath = join(workspaceDirectory, input.path)
             const encoding = input.encoding || 'utf-8'
 
             try {
+                const targetPath = await pathPolicy.resolve(input.path, 'read')
                 const content = await readFile(
                     targetPath,
                     encoding === 'base64' ? 'base64' : 'utf-8',
                 )
-                ws.send(
-                    JSON.stringify({
-                        type: 'file_result',
-                        operation: 'read_file',
-                        result: content,
-                        encoding,
-                    } as WSOutputMessage),
-                )
+                send({
+                    type: 'file_result',
+                    operation: 'read_file',
+                    result: content,
+                    encoding,
+                    requestId: input.requestId,
+                })
             } catch (err) {
-                ws.send(
-                    JSON.stringify({
-                        type: 'error',
-                        error: `Failed to read file: ${err instanceof Error ? err.message : String(err)}`,
-                    } as WSOutputMessage),
-                )
+                send(fileError('read', err, input.requestId))
             }
         } else if (input.type === 'delete_file') {
-            const targetPath = join(workspaceDirectory, input.path)
             try {
+                const targetPath = await pathPolicy.resolve(input.path, 'write')
                 await unlink(targetPath)
-                ws.send(
-                    JSON.stringify({
-                        type: 'file_result',
-                        operation: 'delete_file',
-                        result: 'success',
-                    } as WSOutputMessage),
-                )
+                send({
+                    type: 'file_result',
+                    operation: 'delete_file',
+                    result: 'success',
+                    requestId: input.requestId,
+                })
             } catch (err) {
-                ws.send(
-                    JSON.stringify({
-                        type: 'error',
-                        error: `Failed to delete file: ${err instanceof Error ? err.message : String(err)}`,
-                    } as WSOutputMessage),
-                )
+                send(fileError('delete', err, input.requestId))
             }
         } else if (input.type === 'list_files') {
-            const targetPath = input.path
-                ? join(workspaceDirectory, input.path)
-                : workspaceDirectory
+            const directory = input.path || '.'
             try {
-                const files = await readdir(targetPath)
-                ws.send(
-                    JSON.stringify({
-                        type: 'file_result',
-                        operation: 'list_files',
-                        result: files,
-                    } as WSOutputMessage),
-                )
+                const targetPath = await pathPolicy.resolve(directory, 'read')
+                const { entries, nextCursor } = await listFiles(pathPolicy, targetPath, input)
+                send({
+                    type: 'file_result',
+                    operation: 'list_files',
+                    result: entries.map(entry => entry.path),
+                    entries,
+                    nextCursor,
+                    requestId: input.requestId,
+                })
             } catch (err) {
-                ws.send(
-                    JSON.stringify({
-                        type: 'error',
-                        error: `Failed to list files: ${err instanceof Error ? err.message : String(err)}`,
-                    } as WSOutputMessage),
-                )
+                send(fileError('list', err, input.requestId))
             }
         }
     } catch (error) {
-        ws.send(
-            JSON.stringify({
-                type: 'error',
-                error: `Invalid message format: ${error instanceof Error ? error.message : String(error)}`,
-            } as WSOutputMessage),
-        )
+        send({
+            type: 'error',
+            error: `Failed to handle ${input.type}: ${error instanceof Error ? error.message : String(error)}`,
+            requestId: correlationId(input),
+        })
     }
 }
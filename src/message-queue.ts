@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto'
+import { type SDKUserMessage } from '@anthropic-ai/claude-agent-sdk'
+
+import { type QueuedMessageSummary } from './types'
+
+export type QueuedMessage = {
+    id: string
+    message: SDKUserMessage
+    queuedAt: number
+}
+
+export type MessageQueue = {
+    /** Queue a message, or return null when the queue is at its maximum depth */
+    push: (message: SDKUserMessage, id?: string) => QueuedMessage | null
+    /**
+     * Wait until the agent is idle and a message is queued, then hand it over and mark the
+     * agent busy. Resolves with null once the queue is closed.
+     */
+    take: () => Promise<QueuedMessage | null>
+    /** The agent finished its turn (a `result` arrived or the stream ended) */
+    markIdle: () => void
+    list: () => QueuedMessageSummary[]
+    /** Remove a message that has not started yet; false if it is unknown or already started */
+    cancel: (id: string) => boolean
+    /** Remove every queued message, returning their IDs */
+    clear: () => string[]
+    /**
+     * Stop handing out messages: `take()` resolves with null (ending the agent's prompt
+     * stream) once the current turn is over. Resolves when the agent is idle.
+     */
+    suspend: () => Promise<void>
+    /** Hand out messages again after `suspend()` */
+    resume: () => void
+    close: () => void
+    readonly length: number
+    /** ID of the message the agent is working on, if any */
+    readonly current: string | null
+}
+
+const PREVIEW_LENGTH = 200
+
+/** The start of a user message's text, with other content blocks shown as `[type]` */
+export function messagePreview(message: SDKUserMessage) {
+    const { content } = message.message
+    const text =
+        typeof content === 'string'
+            ? content
+            : content
+                .map((block: { type: string; text?: string }) =>
+                    block.type === 'text' ? (block.text ?? '') : `[${block.type}]`,
+                )
+                .join(' ')
+    return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text
+}
+
+/**
+ * The user messages waiting for a session's agent. Messages are handed to the agent one turn
+ * at a time, so anything still queued can be listed, cancelled or cleared.
+ */
+export function createMessageQueue(options: { maxDepth: number }): MessageQueue {
+    const items: QueuedMessage[] = []
+    let current: string | null = null
+    let closed = false
+    let suspended = false
+    let waiter: (() => void) | null = null
+    let idleWaiters: (() => void)[] = []
+
+    const wake = () => {
+        const resolve = waiter
+        waiter = null
+        resolve?.()
+    }
+
+    return {
+        push(message, id = randomUUID()) {
+            if (closed || items.length >= options.maxDepth) return null
+            const item = { id, message, queuedAt: Date.now() }
+            items.push(item)
+            wake()
+            return item
+        },
+
+        async take() {
+            while (!closed && !suspended && (current !== null || items.length === 0)) {
+                await new Promise<void>(resolve => {
+                    waiter = resolve
+                })
+            }
+            if (closed || suspended) return null
+            const item = items.shift()!
+            current = item.id
+            return item
+        },
+
+        markIdle() {
+            current = null
+            const resolvers = idleWaiters
+            idleWaiters = []
+            resolvers.forEach(resolve => resolve())
+            wake()
+        },
+
+        list: () =>
+            items.map((item, index) => ({
+                messageId: item.id,
+                position: index + 1,
+                queuedAt: item.queuedAt,
+                preview: messagePreview(item.message),
+            })),
+
+        cancel(id) {
+            const index = items.findIndex(item => item.id === id)
+            if (index === -1) return false
+            items.splice(index, 1)
+            return true
+        },
+
+        clear: () => items.splice(0).map(item => item.id),
+
+        suspend() {
+            suspended = true
+            wake()
+            if (current === null) return Promise.resolve()
+            return new Promise<void>(resolve => idleWaiters.push(resolve))
+        },
+
+        resume() {
+            suspended = false
+            wake()
+        },
+
+        close() {
+            closed = true
+            wake()
+        },
+
+        get length() {
+            return items.length
+        },
+
+        get current() {
+            return current
+        },
+    }
+}
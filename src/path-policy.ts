@@ -0,0 +1,156 @@
+import { lstat, readlink, realpath } from 'fs/promises'
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path'
+import { Glob } from 'bun'
+
+import { STATE_DIR_NAME } from './const'
+import { WorkspacePathError } from './errors'
+
+export type PathAccess = 'read' | 'write'
+
+export type PathPolicyOptions = {
+    /** Globs (relative to the workspace) that file operations may read but not modify */
+    readOnlyPaths?: string[]
+    /** Globs (relative to the workspace) that file operations may not touch at all, besides `.castari` */
+    deniedPaths?: string[]
+}
+
+export type PathPolicy = {
+    root: string
+    /**
+     * Resolve a client-supplied path to its canonical location inside the workspace.
+     * Throws a `WorkspacePathError` when the path escapes the workspace or is denied for `access`.
+     */
+    resolve: (path: string, access: PathAccess) => Promise<string>
+    /** Whether a workspace-relative path (using `/` separators) matches a denied glob */
+    isDenied: (relativePath: string) => boolean
+    /** Convert a path returned by `resolve` back to a workspace-relative path with `/` separators */
+    toRelative: (canonicalPath: string) => string
+}
+
+type CompiledGlob = {
+    glob: Glob
+    /** Patterns without a `/` match a file or directory name at any depth, like `.gitignore` */
+    anyDepth: boolean
+    /** For `dir/**` patterns, the directory itself (`dir`) is matched too */
+    directory?: string
+}
+
+const MAX_SYMLINK_HOPS = 40
+
+function compileGlobs(patterns: string[] = []): CompiledGlob[] {
+    return patterns.map(pattern => ({
+        glob: new Glob(pattern),
+        anyDepth: !pattern.includes('/'),
+        directory: pattern.endsWith('/**') ? pattern.slice(0, -3) : undefined,
+    }))
+}
+
+function matchesAny(globs: CompiledGlob[], relativePath: string) {
+    if (!relativePath || globs.length === 0) return false
+    const segments = relativePath.split('/')
+    // A path is matched when it, or any directory above it, matches a pattern
+    for (let i = 1; i <= segments.length; i++) {
+        const candidate = segments.slice(0, i).join('/')
+        for (const { glob, anyDepth, directory } of globs) {
+            if (glob.match(candidate)) return true
+            if (anyDepth && glob.match(segments[i - 1])) return true
+            if (directory === candidate) return true
+        }
+    }
+    return false
+}
+
+function toPosix(path: string) {
+    return sep === '/' ? path : path.split(sep).join('/')
+}
+
+function isInside(root: string, target: string) {
+    const rel = relative(root, target)
+    return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel))
+}
+
+// Resolve symlinks for the deepest existing ancestor of `target` and re-append the missing tail.
+// Dangling symlinks are followed manually so a write can't be redirected outside the workspace.
+async function canonicalize(target: string): Promise<string> {
+    let current = target
+    let tail: string[] = []
+    let hops = 0
+
+    while (true) {
+        try {
+            return join(await realpath(current), ...tail)
+        } catch (err) {
+            const code = (err as NodeJS.ErrnoException).code
+            if (code !== 'ENOENT' && code !== 'ENOTDIR') throw err
+        }
+
+        const stats = await lstat(current).catch(() => null)
+        if (stats?.isSymbolicLink()) {
+            if (++hops > MAX_SYMLINK_HOPS) {
+                throw new Error(`Too many symbolic links while resolving ${target}`)
+            }
+            current = resolve(dirname(current), await readlink(current))
+            continue
+        }
+
+        const parent = dirname(current)
+        if (parent === current) return join(current, ...tail)
+        tail = [basename(current), ...tail]
+        current = parent
+    }
+}
+
+export function createPathPolicy(
+    root: string,
+    options: PathPolicyOptions = {},
+): PathPolicy {
+    const readOnly = compileGlobs(options.readOnlyPaths)
+    // Transcripts and checkpoints are never readable, writable or watchable by clients
+    const denied = compileGlobs([`${STATE_DIR_NAME}/**`, ...(options.deniedPaths ?? [])])
+    let canonicalRoot: Promise<string> | null = null
+    let resolvedRoot = root
+
+    const isDenied = (relativePath: string) => matchesAny(denied, relativePath)
+
+    return {
+        root,
+        isDenied,
+        toRelative: canonicalPath => toPosix(relative(resolvedRoot, canonicalPath)),
+        async resolve(path, access) {
+            canonicalRoot ??= realpath(root)
+            const rootPath = await canonicalRoot
+            resolvedRoot = rootPath
+
+            const lexicalPath = join(root, path)
+            if (!isInside(root, lexicalPath)) {
+                throw new WorkspacePathError(
+                    'path_outside_workspace',
+                    path,
+                    `Path is outside the workspace: ${path}`,
+                )
+            }
+
+            const canonicalPath = await canonicalize(lexicalPath)
+            if (!isInside(rootPath, canonicalPath)) {
+                throw new WorkspacePathError(
+                    'path_outside_workspace',
+                    path,
+                    `Path resolves outside the workspace: ${path}`,
+                )
+            }
+
+            const relativePaths = [
+                toPosix(relative(root, lexicalPath)),
+                toPosix(relative(rootPath, canonicalPath)),
+            ]
+            if (relativePaths.some(isDenied)) {
+                throw new WorkspacePathError('path_denied', path, `Access denied: ${path}`)
+            }
+            if (access === 'write' && relativePaths.some(p => matchesAny(readOnly, p))) {
+                throw new WorkspacePathError('path_read_only', path, `Path is read-only: ${path}`)
+            }
+
+            return canonicalPath
+        },
+    }
+}
@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto'
+import { type CanUseTool, type PermissionResult } from '@anthropic-ai/claude-agent-sdk'
+
+import { PERMISSION_REQUEST_TIMEOUT_MS } from './const'
+import { type PermissionDecision, type WSOutputMessage } from './types'
+
+/**
+ * How tool permissions are decided:
+ * - `'allow'` auto-approves every tool use (the sandbox is the isolation boundary)
+ * - `'client'` forwards each tool use to the connected client as a `permission_request`
+ * - a `canUseTool` function implements a custom policy on the server
+ */
+export type PermissionPolicy = 'allow' | 'client' | CanUseTool
+
+export type PermissionBrokerOptions = {
+    emit: (message: WSOutputMessage) => void
+    /** How long to wait for the client before applying `timeoutDecision` */
+    timeoutMs?: number
+    /** Decision applied when the client does not answer in time. Defaults to `'deny'`. */
+    timeoutDecision?: 'allow' | 'deny'
+}
+
+export type PermissionBroker = {
+    canUseTool: CanUseTool
+    /** Settle a pending request with the client's decision. Returns false for unknown IDs. */
+    resolve: (requestId: string, decision: PermissionDecision) => boolean
+    /** Settle every pending request with `decision` (e.g. when the stream ends) */
+    cancelAll: (decision: PermissionDecision) => void
+}
+
+type PendingPermission = {
+    input: Record<string, unknown>
+    settle: (result: PermissionResult) => void
+}
+
+function toPermissionResult(
+    decision: PermissionDecision,
+    input: Record<string, unknown>,
+): PermissionResult {
+    if (decision.behavior === 'allow') {
+        return { behavior: 'allow', updatedInput: decision.updatedInput ?? input }
+    }
+    return {
+        behavior: 'deny',
+        message: decision.message ?? 'Denied by client',
+        interrupt: decision.interrupt,
+    }
+}
+
+export function createPermissionBroker(options: PermissionBrokerOptions): PermissionBroker {
+    const timeoutMs = options.timeoutMs ?? PERMISSION_REQUEST_TIMEOUT_MS
+    const timeoutDecision: PermissionDecision =
+        options.timeoutDecision === 'allow'
+            ? { behavior: 'allow' }
+            : { behavior: 'deny', message: 'Permission request timed out' }
+    const pending = new Map<string, PendingPermission>()
+
+    const settle = (requestId: string, decision: PermissionDecision) => {
+        const entry = pending.get(requestId)
+        if (!entry) return false
+        pending.delete(requestId)
+        entry.settle(toPermissionResult(decision, entry.input))
+        return true
+    }
+
+    return {
+        canUseTool: (toolName, input, { signal, toolUseID, blockedPath, decisionReason }) =>
+            new Promise<PermissionResult>(resolve => {
+                const requestId = randomUUID()
+                const timer = setTimeout(() => settle(requestId, timeoutDecision), timeoutMs)
+                const onAbort = () =>
+                    settle(requestId, { behavior: 'deny', message: 'Tool use was aborted' })
+
+                pending.set(requestId, {
+                    input,
+                    settle: result => {
+                        clearTimeout(timer)
+                        signal.removeEventListener('abort', onAbort)
+                        resolve(result)
+                    },
+                })
+                signal.addEventListener('abort', onAbort, { once: true })
+
+                options.emit({
+                    type: 'permission_request',
+                    requestId,
+                    toolName,
+                    input,
+                    toolUseId: toolUseID,
+                    blockedPath,
+                    decisionReason,
+                })
+            }),
+        resolve: settle,
+        cancelAll: decision => {
+            for (const requestId of [...pending.keys()]) {
+                settle(requestId, decision)
+            }
+        },
+    }
+}
+
+/** Build the SDK `canUseTool` callback for a policy */
+export function resolveCanUseTool(
+    policy: PermissionPolicy,
+    broker: PermissionBroker,
+): CanUseTool {
+    if (policy === 'client') return broker.canUseTool
+    if (typeof policy === 'function') return policy
+    // Auto-approve tool usage (including file writes) inside the sandbox.
+    // Sandboxes are already isolated, so this keeps DX smooth without interactive prompts.
+    return async (_toolName, input) => ({
+        behavior: 'allow',
+        updatedInput: input,
+    })
+}
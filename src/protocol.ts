@@ -0,0 +1,533 @@
+import type { PermissionMode, SDKMessage, SDKUserMessage } from '@anthropic-ai/claude-agent-sdk'
+import { z } from 'zod'
+
+import { type ProtocolErrorCode } from './errors'
+import type {
+    QueryConfig,
+    QueryConfigUpdate,
+    TranscriptEntry,
+    WSErrorCode,
+    WSInputMessage,
+    WSOutputMessage,
+} from './types'
+
+/**
+ * Version of the WebSocket protocol, sent in `connected`. Bumped on changes that old clients
+ * or servers cannot handle; new optional features are announced as capabilities instead.
+ */
+export const PROTOCOL_VERSION = 1
+
+/** Optional protocol features, each covering the input messages listed in `INPUT_CAPABILITIES` */
+export const PROTOCOL_CAPABILITIES = [
+    'message_queue',
+    'config_updates',
+    'permissions',
+    'client_tools',
+    'transfers',
+    'watch_files',
+    'status',
+    'transcripts',
+    'checkpoints',
+    // Every session works in the workspace root, so files outlive the session that wrote them
+    'shared_workspace',
+] as const
+
+export type ProtocolCapability = (typeof PROTOCOL_CAPABILITIES)[number]
+
+/** The capability a server must announce before a client sends these messages */
+export const INPUT_CAPABILITIES: Partial<Record<WSInputMessage['type'], ProtocolCapability>> = {
+    list_queue: 'message_queue',
+    cancel_message: 'message_queue',
+    clear_queue: 'message_queue',
+    set_model: 'config_updates',
+    set_permission_mode: 'config_updates',
+    update_config: 'config_updates',
+    permission_response: 'permissions',
+    tool_result: 'client_tools',
+    upload_begin: 'transfers',
+    upload_chunk: 'transfers',
+    upload_end: 'transfers',
+    download_begin: 'transfers',
+    download_ack: 'transfers',
+    transfer_cancel: 'transfers',
+    watch_files: 'watch_files',
+    unwatch_files: 'watch_files',
+    get_status: 'status',
+    get_transcript: 'transcripts',
+    list_checkpoints: 'checkpoints',
+    diff_checkpoint: 'checkpoints',
+    restore_checkpoint: 'checkpoints',
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Payloads owned by the agent SDK or validated elsewhere are only checked for their shape
+const objectWithType = <T>() =>
+    z.custom<T>(value => isObject(value) && typeof value.type === 'string', 'must be an object with a type')
+const object = <T>() => z.custom<T>(isObject, 'must be an object')
+const string = <T extends string>() => z.custom<T>(value => typeof value === 'string', 'must be a string')
+
+const requestId = z.string().optional()
+const encoding = z.enum(['utf-8', 'base64'])
+const globs = z.array(z.string()).optional()
+const record = z.record(z.unknown())
+const transferDirection = z.enum(['upload', 'download'])
+const fileType = z.enum(['file', 'directory', 'symlink', 'other'])
+
+const fileEntry = z.object({
+    path: z.string(),
+    type: fileType,
+    size: z.number(),
+    mtime: z.number(),
+    mode: z.number(),
+})
+
+const toolResultContent = z.array(
+    z.discriminatedUnion('type', [
+        z.object({ type: z.literal('text'), text: z.string() }),
+        z.object({ type: z.literal('image'), data: z.string(), mimeType: z.string() }),
+    ]),
+)
+
+const checkpoint = z.object({
+    checkpointId: z.string(),
+    reason: z.enum(['turn', 'restore']),
+    messageId: z.string().optional(),
+    preview: z.string().optional(),
+    restoredFrom: z.string().optional(),
+    createdAt: z.number(),
+})
+
+const permissionDecision = z.discriminatedUnion('behavior', [
+    z.object({ behavior: z.literal('allow'), updatedInput: record.optional() }),
+    z.object({
+        behavior: z.literal('deny'),
+        message: z.string().optional(),
+        interrupt: z.boolean().optional(),
+    }),
+])
+
+// One schema per message type, so every type in `types.ts` is covered and checked against it
+type SchemasFor<Message extends { type: string }> = {
+    [Type in Message['type']]: z.ZodType<Extract<Message, { type: Type }>, z.ZodTypeDef, unknown>
+}
+
+const inputSchemas: SchemasFor<WSInputMessage> = {
+    user_message: z.object({
+        type: z.literal('user_message'),
+        data: z.custom<SDKUserMessage>(
+            value => isObject(value) && value.type === 'user' && isObject(value.message),
+            'must be an SDK user message',
+        ),
+        messageId: z.string().optional(),
+    }),
+    interrupt: z.object({ type: z.literal('interrupt') }),
+    list_queue: z.object({ type: z.literal('list_queue'), requestId }),
+    cancel_message: z.object({ type: z.literal('cancel_message'), messageId: z.string(), requestId }),
+    clear_queue: z.object({ type: z.literal('clear_queue'), requestId }),
+    set_model: z.object({ type: z.literal('set_model'), model: z.string().optional(), requestId }),
+    set_permission_mode: z.object({
+        type: z.literal('set_permission_mode'),
+        mode: string<PermissionMode>(),
+        requestId,
+    }),
+    update_config: z.object({
+        type: z.literal('update_config'),
+        config: object<QueryConfigUpdate>(),
+        requestId,
+    }),
+    create_file: z.object({
+        type: z.literal('create_file'),
+        path: z.string(),
+        content: z.string(),
+        encoding: encoding.optional(),
+        requestId,
+    }),
+    read_file: z.object({
+        type: z.literal('read_file'),
+        path: z.string(),
+        encoding: encoding.optional(),
+        requestId,
+    }),
+    delete_file: z.object({ type: z.literal('delete_file'), path: z.string(), requestId }),
+    list_files: z.object({
+        type: z.literal('list_files'),
+        path: z.string().optional(),
+        requestId,
+        recursive: z.boolean().optional(),
+        maxDepth: z.number().optional(),
+        include: globs,
+        exclude: globs,
+        respectGitignore: z.boolean().optional(),
+        limit: z.number().optional(),
+        cursor: z.string().optional(),
+    }),
+    permission_response: z.object({
+        type: z.literal('permission_response'),
+        requestId: z.string(),
+        decision: permissionDecision,
+    }),
+    tool_result: z.object({
+        type: z.literal('tool_result'),
+        callId: z.string(),
+        content: toolResultContent,
+        isError: z.boolean().optional(),
+    }),
+    upload_begin: z.object({
+        type: z.literal('upload_begin'),
+        transferId: z.string(),
+        path: z.string(),
+        totalBytes: z.number().optional(),
+        resume: z.boolean().optional(),
+    }),
+    upload_chunk: z.object({
+        type: z.literal('upload_chunk'),
+        transferId: z.string(),
+        offset: z.number(),
+        data: z.string(),
+        checksum: z.string(),
+    }),
+    upload_end: z.object({ type: z.literal('upload_end'), transferId: z.string() }),
+    download_begin: z.object({
+        type: z.literal('download_begin'),
+        transferId: z.string(),
+        path: z.string(),
+        offset: z.number().optional(),
+        chunkSize: z.number().optional(),
+    }),
+    download_ack: z.object({ type: z.literal('download_ack'), transferId: z.string(), offset: z.number() }),
+    transfer_cancel: z.object({ type: z.literal('transfer_cancel'), transferId: z.string() }),
+    watch_files: z.object({
+        type: z.literal('watch_files'),
+        subscriptionId: z.string(),
+        path: z.string().optional(),
+        include: globs,
+        exclude: globs,
+        debounceMs: z.number().optional(),
+    }),
+    unwatch_files: z.object({ type: z.literal('unwatch_files'), subscriptionId: z.string() }),
+    get_status: z.object({ type: z.literal('get_status'), requestId }),
+    get_transcript: z.object({
+        type: z.literal('get_transcript'),
+        since: z.number().optional(),
+        requestId,
+    }),
+    list_checkpoints: z.object({ type: z.literal('list_checkpoints'), requestId }),
+    diff_checkpoint: z.object({
+        type: z.literal('diff_checkpoint'),
+        checkpointId: z.string(),
+        paths: z.array(z.string()).optional(),
+        requestId,
+    }),
+    restore_checkpoint: z.object({
+        type: z.literal('restore_checkpoint'),
+        checkpointId: z.string(),
+        requestId,
+    }),
+}
+
+const outputSchemas: SchemasFor<WSOutputMessage> = {
+    connected: z.object({
+        type: z.literal('connected'),
+        protocolVersion: z.number(),
+        capabilities: z.array(z.string()),
+        replay: z
+            .object({ fromSeq: z.number(), count: z.number(), dropped: z.number() })
+            .optional(),
+    }),
+    sdk_message: z.object({ type: z.literal('sdk_message'), data: objectWithType<SDKMessage>() }),
+    message_queued: z.object({
+        type: z.literal('message_queued'),
+        messageId: z.string(),
+        position: z.number(),
+    }),
+    message_started: z.object({ type: z.literal('message_started'), messageId: z.string() }),
+    queue: z.object({
+        type: z.literal('queue'),
+        messages: z.array(
+            z.object({
+                messageId: z.string(),
+                position: z.number(),
+                queuedAt: z.number(),
+                preview: z.string(),
+            }),
+        ),
+        requestId,
+    }),
+    config_updated: z.object({
+        type: z.literal('config_updated'),
+        config: object<QueryConfig>(),
+        applied: z.enum(['live', 'restart']),
+        requestId,
+    }),
+    messages_cancelled: z.object({
+        type: z.literal('messages_cancelled'),
+        messageIds: z.array(z.string()),
+        requestId,
+    }),
+    error: z.object({
+        type: z.literal('error'),
+        error: z.string(),
+        // Newer servers may add codes, so any string is accepted
+        code: string<WSErrorCode>().optional(),
+        requestId,
+    }),
+    info: z.object({ type: z.literal('info'), data: z.string() }),
+    permission_request: z.object({
+        type: z.literal('permission_request'),
+        requestId: z.string(),
+        toolName: z.string(),
+        input: record,
+        toolUseId: z.string(),
+        blockedPath: z.string().optional(),
+        decisionReason: z.string().optional(),
+    }),
+    tool_call: z.object({
+        type: z.literal('tool_call'),
+        callId: z.string(),
+        name: z.string(),
+        input: record,
+    }),
+    file_result: z.discriminatedUnion('operation', [
+        z.object({
+            type: z.literal('file_result'),
+            operation: z.enum(['create_file', 'delete_file']),
+            result: z.literal('success'),
+            requestId,
+        }),
+        z.object({
+            type: z.literal('file_result'),
+            operation: z.literal('read_file'),
+            result: z.string(),
+            encoding,
+            requestId,
+        }),
+        z.object({
+            type: z.literal('file_result'),
+            operation: z.literal('list_files'),
+            result: z.array(z.string()),
+            entries: z.array(fileEntry),
+            nextCursor: z.string().optional(),
+            requestId,
+        }),
+    ]),
+    transfer_ready: z.object({
+        type: z.literal('transfer_ready'),
+        transferId: z.string(),
+        direction: transferDirection,
+        offset: z.number(),
+        totalBytes: z.number().optional(),
+    }),
+    download_chunk: z.object({
+        type: z.literal('download_chunk'),
+        transferId: z.string(),
+        offset: z.number(),
+        data: z.string(),
+        checksum: z.string(),
+    }),
+    transfer_progress: z.object({
+        type: z.literal('transfer_progress'),
+        transferId: z.string(),
+        direction: transferDirection,
+        path: z.string(),
+        bytesTransferred: z.number(),
+        totalBytes: z.number().optional(),
+    }),
+    watch_started: z.object({ type: z.literal('watch_started'), subscriptionId: z.string() }),
+    watch_stopped: z.object({
+        type: z.literal('watch_stopped'),
+        subscriptionId: z.string(),
+        error: z.string().optional(),
+    }),
+    file_changed: z.object({
+        type: z.literal('file_changed'),
+        subscriptionId: z.string(),
+        changes: z.array(
+            z.object({
+                kind: z.enum(['created', 'modified', 'deleted']),
+                path: z.string(),
+                type: fileType.optional(),
+                size: z.number().optional(),
+            }),
+        ),
+    }),
+    transfer_complete: z.object({
+        type: z.literal('transfer_complete'),
+        transferId: z.string(),
+        direction: transferDirection,
+        path: z.string(),
+        totalBytes: z.number(),
+    }),
+    status: z.object({
+        type: z.literal('status'),
+        requestId,
+        uptimeMs: z.number(),
+        session: z.object({
+            sessionId: z.string(),
+            connected: z.boolean(),
+            queueDepth: z.number(),
+            streamActive: z.boolean(),
+            busy: z.boolean(),
+            currentMessageId: z.string().nullable(),
+            createdAt: z.number(),
+            lastError: z.object({ message: z.string(), at: z.number() }).nullable(),
+            usage: z.object({
+                inputTokens: z.number(),
+                outputTokens: z.number(),
+                cacheCreationInputTokens: z.number(),
+                cacheReadInputTokens: z.number(),
+                totalCostUsd: z.number(),
+                numTurns: z.number(),
+                results: z.number(),
+            }),
+        }),
+    }),
+    transcript: z.object({
+        type: z.literal('transcript'),
+        entries: z.array(
+            z.object({
+                at: z.number(),
+                direction: z.enum(['in', 'out']),
+                message: objectWithType<TranscriptEntry['message']>(),
+            }),
+        ),
+        requestId,
+    }),
+    checkpoint_created: z.object({ type: z.literal('checkpoint_created'), checkpoint }),
+    checkpoints: z.object({
+        type: z.literal('checkpoints'),
+        checkpoints: z.array(checkpoint),
+        requestId,
+    }),
+    checkpoint_diff: z.object({
+        type: z.literal('checkpoint_diff'),
+        checkpointId: z.string(),
+        files: z.array(
+            z.object({
+                path: z.string(),
+                status: z.enum(['added', 'modified', 'deleted', 'skipped']),
+                patch: z.string(),
+            }),
+        ),
+        requestId,
+    }),
+    checkpoint_restored: z.object({
+        type: z.literal('checkpoint_restored'),
+        checkpointId: z.string(),
+        backupCheckpointId: z.string(),
+        requestId,
+    }),
+    shutting_down: z.object({
+        type: z.literal('shutting_down'),
+        reason: z.string(),
+        graceful: z.boolean(),
+        timeoutMs: z.number().optional(),
+    }),
+}
+
+const seq = z.number().optional()
+
+export type ProtocolParseResult<Message> =
+    | { ok: true; message: Message }
+    | {
+        ok: false
+        code: Extract<ProtocolErrorCode, 'malformed_message' | 'unknown_message_type' | 'invalid_message'>
+        error: string
+        /** `type` of the message, when it had one */
+        messageType?: string
+        /** The correlation ID the message carried, so the error can answer it */
+        requestId?: string
+    }
+
+/** The ID an `error` about a message is sent under: its request, message, transfer or watch ID */
+export function correlationId(message: {
+    type: string
+    requestId?: unknown
+    messageId?: unknown
+    transferId?: unknown
+    subscriptionId?: unknown
+}): string | undefined {
+    const ids = [message.requestId, message.messageId, message.transferId, message.subscriptionId]
+    return ids.find((id): id is string => typeof id === 'string')
+}
+
+function parseMessage<Message extends { type: string }>(
+    data: string,
+    schemas: SchemasFor<Message>,
+    extraFields?: z.ZodType,
+): ProtocolParseResult<Message> {
+    let value: unknown
+    try {
+        value = JSON.parse(data)
+    } catch (err) {
+        return {
+            ok: false,
+            code: 'malformed_message',
+            error: `Message is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+        }
+    }
+    if (!isObject(value) || typeof value.type !== 'string') {
+        return { ok: false, code: 'malformed_message', error: 'Message must be an object with a string type' }
+    }
+
+    const messageType = value.type
+    const replyTo = correlationId({ ...value, type: messageType })
+    const schema = Object.hasOwn(schemas, messageType)
+        ? schemas[messageType as Message['type']]
+        : undefined
+    if (!schema) {
+        return {
+            ok: false,
+            code: 'unknown_message_type',
+            error: `Unknown message type: ${messageType} (protocol version ${PROTOCOL_VERSION})`,
+            messageType,
+            requestId: replyTo,
+        }
+    }
+
+    const result = (extraFields ? schema.and(extraFields) : schema).safeParse(value)
+    if (!result.success) {
+        const issues = result.error.issues
+            .map(issue => `${issue.path.join('.') || 'message'} ${issue.message}`)
+            .join('; ')
+        return {
+            ok: false,
+            code: 'invalid_message',
+            error: `Invalid ${messageType} message: ${issues}`,
+            messageType,
+            requestId: replyTo,
+        }
+    }
+    // The original object is kept: fields added by a newer peer pass through untouched
+    return { ok: true, message: value as Message }
+}
+
+/** Parse and validate a client-to-server frame */
+export function parseInputMessage(data: string): ProtocolParseResult<WSInputMessage> {
+    return parseMessage(data, inputSchemas)
+}
+
+/** Parse and validate a server-to-client frame */
+export function parseOutputMessage(data: string): ProtocolParseResult<WSOutputMessage> {
+    return parseMessage(data, outputSchemas, z.object({ seq }))
+}
+
+/**
+ * The `connected` message the server sends when a WebSocket opens. Features switched off
+ * on this server are left out of the capabilities.
+ */
+export function connectedMessage(
+    options: {
+        replay?: Extract<WSOutputMessage, { type: 'connected' }>['replay']
+        disabled?: ProtocolCapability[]
+    } = {},
+): WSOutputMessage {
+    const { replay, disabled = [] } = options
+    return {
+        type: 'connected',
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: PROTOCOL_CAPABILITIES.filter(capability => !disabled.includes(capability)),
+        ...(replay ? { replay } : {}),
+    }
+}
@@ -0,0 +1,28 @@
+import {
+    query,
+    type Options,
+    type Query,
+    type SDKMessage,
+    type SDKUserMessage,
+    type tool,
+} from '@anthropic-ai/claude-agent-sdk'
+
+/** The part of the SDK's `Query` the server relies on */
+export type AgentQuery = AsyncIterable<SDKMessage> &
+    Pick<Query, 'interrupt' | 'setModel' | 'setPermissionMode'>
+
+export type QueryBackendContext = {
+    /** The custom `tools` passed to `serve()`, also registered as the `castari-agent` MCP server */
+    tools: ReturnType<typeof tool>[]
+}
+
+/**
+ * Starts the agent stream for a session. The default is the agent SDK's `query()`; tests can
+ * substitute `createScriptedQuery()` to run without an Anthropic API key.
+ */
+export type QueryBackend = (
+    params: { prompt: AsyncIterable<SDKUserMessage>; options: Options },
+    context: QueryBackendContext,
+) => AgentQuery
+
+export const sdkQueryBackend: QueryBackend = params => query(params)
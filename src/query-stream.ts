@@ -0,0 +1,115 @@
+import type {
+    SDKMessage,
+    SDKResultMessage,
+    SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk'
+
+/** Text or content blocks accepted as a prompt by `CastariClient.query()` */
+export type QueryPrompt = string | Exclude<SDKUserMessage['message']['content'], string>
+
+export type QueryOptions = {
+    /** Aborting sends an `interrupt`; the stream still ends on the SDK `result` message */
+    signal?: AbortSignal
+}
+
+/** Summary of a finished turn, taken from the SDK `result` message */
+export type QueryResult = {
+    /** Final assistant text (empty when the turn ended with an error) */
+    text: string
+    subtype: SDKResultMessage['subtype']
+    isError: boolean
+    usage: SDKResultMessage['usage']
+    totalCostUsd: number
+    numTurns: number
+    durationMs: number
+    sessionId: string
+    message: SDKResultMessage
+}
+
+/**
+ * The messages of a single turn, returned by `CastariClient.query()`.
+ * Iterate it for every `SDKMessage` up to and including the `result`, or await `result()`.
+ */
+export class QueryStream implements AsyncIterable<SDKMessage> {
+    private buffer: SDKMessage[] = []
+    private waiters: (() => void)[] = []
+    private finished = false
+    private failure?: unknown
+    private resultPromise: Promise<QueryResult>
+    private resolveResult!: (result: QueryResult) => void
+    private rejectResult!: (error: unknown) => void
+
+    /** ID of the user message that started the turn; pass it to `cancelMessage()` */
+    readonly messageId: string
+
+    constructor(messageId: string) {
+        this.messageId = messageId
+        this.resultPromise = new Promise<QueryResult>((resolve, reject) => {
+            this.resolveResult = resolve
+            this.rejectResult = reject
+        })
+        // Callers that only iterate shouldn't see unhandled rejections from result()
+        this.resultPromise.catch(() => {})
+    }
+
+    /** Resolves with the turn summary once the `result` message arrives */
+    result(): Promise<QueryResult> {
+        return this.resultPromise
+    }
+
+    /** Whether the turn has ended, successfully or not */
+    get done(): boolean {
+        return this.finished
+    }
+
+    /** @internal Append a message; a `result` message ends the stream */
+    push(message: SDKMessage) {
+        if (this.finished) return
+        this.buffer.push(message)
+        if (message.type === 'result') {
+            this.finished = true
+            this.resolveResult({
+                text: message.subtype === 'success' ? message.result : '',
+                subtype: message.subtype,
+                isError: message.is_error,
+                usage: message.usage,
+                totalCostUsd: message.total_cost_usd,
+                numTurns: message.num_turns,
+                durationMs: message.duration_ms,
+                sessionId: message.session_id,
+                message,
+            })
+        }
+        this.wake()
+    }
+
+    /** @internal End the stream with an error */
+    fail(error: unknown) {
+        if (this.finished) return
+        this.finished = true
+        this.failure = error
+        this.rejectResult(error)
+        this.wake()
+    }
+
+    private wake() {
+        const waiters = this.waiters
+        this.waiters = []
+        waiters.forEach(wake => wake())
+    }
+
+    async *[Symbol.asyncIterator](): AsyncIterator<SDKMessage> {
+        while (true) {
+            const message = this.buffer.shift()
+            if (message) {
+                yield message
+                continue
+            }
+            if (this.finished) {
+                if (this.failure !== undefined) throw this.failure
+                return
+            }
+            await new Promise<void>(resolve => this.waiters.push(resolve))
+        }
+    }
+}
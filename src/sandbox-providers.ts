@@ -0,0 +1,286 @@
+import { CastariPlatformError } from './errors'
+import { createLogger, redactingLogger, type Logger } from './logger'
+
+const DEFAULT_LOCAL_URL = 'http://localhost:3000'
+const DEFAULT_PLATFORM_URL = 'https://castari-api-12511-04c55b73-g4p2s9om.onporter.run'
+
+/** How a client reaches the agent server inside a sandbox */
+export type ConnectionDetails = {
+    configUrl: string
+    /** Endpoint that exchanges the reconnect token for a fresh connection token */
+    reconnectUrl?: string
+    wsUrl: string
+    /** Headers to include in HTTP requests (e.g., for sandbox proxy auth) */
+    authHeaders?: Record<string, string>
+    /** Query params to include in WebSocket URL (browsers can't set WS headers) */
+    authParams?: Record<string, string>
+}
+
+/**
+ * Provisions the sandbox an agent server runs in. `CastariClient` calls `start()` before
+ * configuring a session and `stop()` when it is stopped, or when configuration fails.
+ */
+export interface SandboxProvider {
+    /** Start (or find) a sandbox and return how to reach its agent server */
+    start(): Promise<ConnectionDetails>
+    /**
+     * Stop the sandbox. `delete: false` asks to keep it for reuse; providers that cannot
+     * hibernate a sandbox treat both the same.
+     */
+    stop(options?: { delete?: boolean }): Promise<void>
+}
+
+/** Derive the endpoints of an agent server from its base URL (`http(s)://` or `ws(s)://`) */
+export function connectionDetailsFromUrl(
+    url: string,
+    auth: Pick<ConnectionDetails, 'authHeaders' | 'authParams'> = {},
+): ConnectionDetails {
+    const baseUrl = url.replace(/\/$/, '')
+    const httpBaseUrl = baseUrl.replace('ws://', 'http://').replace('wss://', 'https://')
+    return {
+        configUrl: `${httpBaseUrl}/config`,
+        reconnectUrl: `${httpBaseUrl}/reconnect`,
+        wsUrl: `${baseUrl.replace('http://', 'ws://').replace('https://', 'wss://')}/ws`,
+        ...auth,
+    }
+}
+
+/** Connect to an agent server that is already running, e.g. one started by hand */
+export function createUrlProvider(url: string = DEFAULT_LOCAL_URL): SandboxProvider {
+    return {
+        start: async () => connectionDetailsFromUrl(url),
+        // Nothing was started, so there is nothing to stop
+        stop: async () => {},
+    }
+}
+
+export type PlatformOptions = {
+    /** Castari client ID (defaults to process.env.CASTARI_CLIENT_ID) */
+    clientId?: string
+    /** Castari platform API key (defaults to process.env.CASTARI_API_KEY) */
+    apiKey?: string
+    /** Castari Platform API URL (defaults to process.env.CASTARI_PLATFORM_URL) */
+    platformUrl?: string
+    /** Log requests to the platform at debug level with the default logger */
+    debug?: boolean
+    /** Where logs go. Defaults to `createLogger()`; secrets are always redacted. */
+    logger?: Logger
+}
+
+export type PlatformProviderOptions = PlatformOptions & {
+    /**
+     * Attach to this existing sandbox (starting it again if it was stopped) instead of
+     * creating one. `snapshot`, `labels` and `volume` are ignored.
+     */
+    sandboxId?: string
+    /** Snapshot name to deploy/start */
+    snapshot?: string
+    /** Labels to apply to the sandbox (and filter by for reuse) */
+    labels?: Record<string, string>
+    /** Volume name to mount at /home/castari/agent-workspace */
+    volume?: string
+    /** Connect through the platform's WebSocket proxy. Defaults to true. */
+    useProxy?: boolean
+}
+
+export type PlatformSandboxProvider = SandboxProvider & {
+    /** ID of the sandbox once `start()` has resolved */
+    readonly sandboxId: string | undefined
+}
+
+export type SandboxStatus = 'starting' | 'running' | 'stopping' | 'stopped' | 'error'
+
+/** A sandbox as the platform reports it */
+export type SandboxInfo = {
+    id: string
+    status: SandboxStatus
+    snapshot?: string
+    labels: Record<string, string>
+    volume?: string
+    /** ISO 8601 timestamps */
+    createdAt?: string
+    lastActiveAt?: string
+}
+
+export type ListSandboxesOptions = {
+    /** Only sandboxes carrying all of these labels */
+    labels?: Record<string, string>
+    /** Only sandboxes in one of these states */
+    status?: SandboxStatus[]
+}
+
+type PlatformApi = {
+    platformUrl: string
+    logger: Logger
+    /**
+     * POST a JSON body (with the client ID added) to a platform endpoint. Resolves with the
+     * parsed response body, or undefined when the response is empty.
+     */
+    post: <T>(
+        endpoint: string,
+        body: Record<string, unknown>,
+        sandboxId?: string,
+    ) => Promise<T | undefined>
+}
+
+function createPlatformApi(options: PlatformOptions): PlatformApi {
+    const clientId = options.clientId || process.env.CASTARI_CLIENT_ID || undefined
+    const apiKey = options.apiKey || process.env.CASTARI_API_KEY || undefined
+    const platformUrl = (options.platformUrl || process.env.CASTARI_PLATFORM_URL || DEFAULT_PLATFORM_URL).replace(/\/$/, '')
+    const authorization: Record<string, string> = apiKey
+        ? { Authorization: `Bearer ${apiKey}` }
+        : {}
+    const logger = options.logger
+        ? redactingLogger(options.logger)
+        : createLogger({ level: options.debug ? 'debug' : 'info' })
+
+    return {
+        platformUrl,
+        logger,
+        async post<T>(endpoint: string, body: Record<string, unknown>, sandboxId?: string) {
+            if (!clientId) {
+                throw new Error('CASTARI_CLIENT_ID is required when connecting via the Castari Platform')
+            }
+            logger.debug('Calling platform', { platformUrl, endpoint, sandboxId })
+            const response = await fetch(`${platformUrl}/${endpoint}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...authorization,
+                },
+                body: JSON.stringify({ ...body, clientId }),
+            }).catch(error => {
+                throw new CastariPlatformError(
+                    `Platform request ${endpoint} failed: ${error instanceof Error ? error.message : String(error)}`,
+                    { code: 'request_failed', operation: endpoint, sandboxId },
+                )
+            })
+            if (!response.ok) {
+                throw await CastariPlatformError.fromResponse(response, { operation: endpoint, sandboxId })
+            }
+            const text = await response.text()
+            if (!text) return undefined
+            const parsed: T = JSON.parse(text)
+            return parsed
+        },
+    }
+}
+
+/** Start sandboxes on the Castari platform via `/sandbox/start` and `/sandbox/stop` */
+export function createPlatformProvider(
+    options: PlatformProviderOptions = {},
+): PlatformSandboxProvider {
+    const api = createPlatformApi(options)
+    const { platformUrl, logger } = api
+    let sandboxId: string | undefined
+
+    return {
+        get sandboxId() {
+            return sandboxId
+        },
+
+        async start() {
+            const started = await api.post<{
+                id: string
+                url: string
+                proxyUrl?: string
+                authHeaders?: Record<string, string>
+                authParams?: Record<string, string>
+            }>(
+                'sandbox/start',
+                options.sandboxId
+                    ? { sandboxId: options.sandboxId }
+                    : { snapshot: options.snapshot, labels: options.labels, volume: options.volume },
+                options.sandboxId,
+            )
+            if (!started?.id || !started.url) {
+                throw new CastariPlatformError('Platform did not return a sandbox', {
+                    code: 'request_failed',
+                    operation: 'sandbox/start',
+                    sandboxId: options.sandboxId,
+                })
+            }
+            const { id, url, proxyUrl, authHeaders, authParams } = started
+            sandboxId = id
+
+            // Default to proxy mode (true) unless explicitly disabled
+            const useProxy = options.useProxy ?? (process.env.CASTARI_USE_PROXY !== 'false')
+
+            logger.debug('Sandbox started', {
+                sandboxId: id,
+                url,
+                ...(useProxy && proxyUrl ? { proxyUrl } : {}),
+            })
+
+            // If proxy mode is enabled and we have a proxy URL, use it
+            if (useProxy && proxyUrl) {
+                // Proxy mode: connect through platform API
+                // No auth headers/params needed - proxy handles sandbox auth
+                return {
+                    configUrl: `${platformUrl}/proxy/${id}/config`,
+                    reconnectUrl: `${platformUrl}/proxy/${id}/reconnect`,
+                    wsUrl: proxyUrl,
+                }
+            }
+
+            // Direct mode: connect to sandbox directly
+            return connectionDetailsFromUrl(url, { authHeaders, authParams })
+        },
+
+        async stop(stopOptions = {}) {
+            if (!sandboxId) return
+            // A sandbox this provider attached to belongs to someone else, so it is only deleted on request
+            const shouldDelete = stopOptions.delete ?? !options.sandboxId
+            try {
+                await api.post('sandbox/stop', { sandboxId, delete: shouldDelete }, sandboxId)
+                logger.debug(shouldDelete ? 'Sandbox deleted' : 'Sandbox stopped', { sandboxId })
+            } catch (error) {
+                logger.error('Failed to stop sandbox', { sandboxId, error })
+            }
+        },
+    }
+}
+
+/**
+ * Find and manage the client's sandboxes on the Castari platform, e.g. from a cleanup job.
+ * To connect to one, pass its ID to `new CastariClient({ sandboxId })`.
+ */
+export class CastariPlatform {
+    private readonly api: PlatformApi
+
+    constructor(options: PlatformOptions = {}) {
+        this.api = createPlatformApi(options)
+    }
+
+    /** The client's sandboxes, optionally only those matching labels or states */
+    async listSandboxes(options: ListSandboxesOptions = {}): Promise<SandboxInfo[]> {
+        const result = await this.api.post<{ sandboxes: SandboxInfo[] }>('sandbox/list', {
+            labels: options.labels,
+            status: options.status,
+        })
+        return result?.sandboxes ?? []
+    }
+
+    /** One sandbox's status; rejects with a `not_found` `CastariPlatformError` if it is unknown */
+    async getSandbox(sandboxId: string): Promise<SandboxInfo> {
+        const sandbox = await this.api.post<SandboxInfo>('sandbox/status', { sandboxId }, sandboxId)
+        if (!sandbox) {
+            throw new CastariPlatformError(`Platform returned no status for sandbox ${sandboxId}`, {
+                code: 'request_failed',
+                operation: 'sandbox/status',
+                sandboxId,
+            })
+        }
+        return sandbox
+    }
+
+    /** Stop a sandbox but keep it (and its workspace) for reuse */
+    async stopSandbox(sandboxId: string): Promise<void> {
+        await this.api.post('sandbox/stop', { sandboxId, delete: false }, sandboxId)
+    }
+
+    /** Stop a sandbox and delete it */
+    async deleteSandbox(sandboxId: string): Promise<void> {
+        await this.api.post('sandbox/stop', { sandboxId, delete: true }, sandboxId)
+    }
+}
@@ -0,0 +1,268 @@
+import { randomUUID } from 'crypto'
+import type {
+    PermissionMode,
+    SDKAssistantMessage,
+    SDKMessage,
+    SDKResultMessage,
+    SDKSystemMessage,
+    SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk'
+
+import { type QueryBackend } from './query-backend'
+
+/** One thing the scripted agent does during a turn */
+export type ScriptedStep =
+    /** Reply with assistant text; the last text of a turn becomes its `result` */
+    | { text: string }
+    | { thinking: string }
+    /**
+     * Call a tool. Custom `tools` passed to `serve()` (by plain or `mcp__castari-agent__` name)
+     * run their real handler; any other tool answers with `output`. The server's permission
+     * policy is consulted first, as it would be for a real agent.
+     */
+    | { toolUse: string; input?: Record<string, unknown>; output?: string }
+    /** Emit an SDK message as-is */
+    | { message: SDKMessage }
+    /** Make the agent stream throw, as if the agent process crashed */
+    | { fail: string }
+
+/** A turn's steps, or a function computing them from the user message that started the turn */
+export type ScriptedTurn =
+    | ScriptedStep[]
+    | ((prompt: SDKUserMessage) => ScriptedStep[] | Promise<ScriptedStep[]>)
+
+export type ScriptedQueryOptions = {
+    /** Model reported in the `system` init message. Defaults to the configured model or `scripted`. */
+    model?: string
+    /** Cost reported on each turn's `result` message. Defaults to 0. */
+    costUsd?: number
+}
+
+type ToolResultBlock = {
+    type: 'tool_result'
+    tool_use_id: string
+    content: unknown
+    is_error?: boolean
+}
+
+const CUSTOM_TOOL_PREFIX = 'mcp__castari-agent__'
+
+/**
+ * A query backend that plays back canned turns instead of calling the Anthropic API. Each user
+ * message consumes its session's next turn, so concurrent sessions each play the script from
+ * the start; the turn's messages are followed by a `result`, shaped like the
+ * real agent SDK's, so clients, transcripts and usage accounting see a realistic stream.
+ *
+ * ```typescript
+ * serve({
+ *   tools: [weatherTool],
+ *   queryBackend: createScriptedQuery([
+ *     [{ toolUse: 'get_weather', input: { city: 'Paris' } }, { text: 'It is sunny.' }],
+ *   ]),
+ * })
+ * ```
+ */
+export function createScriptedQuery(
+    turns: ScriptedTurn[],
+    scriptOptions: ScriptedQueryOptions = {},
+): QueryBackend {
+    // Keyed by agent session ID, so a restarted (resumed) stream carries on with the next turn
+    const turnIndexes = new Map<string, number>()
+    return ({ prompt, options }, { tools }) => {
+        const sessionId = options.resume ?? randomUUID()
+        let model = options.model ?? scriptOptions.model ?? 'scripted'
+        let permissionMode: PermissionMode = options.permissionMode ?? 'default'
+        let interrupted = false
+
+        const assistant = (content: unknown[]): SDKAssistantMessage => ({
+            type: 'assistant',
+            message: {
+                id: `msg_${randomUUID().replace(/-/g, '')}`,
+                type: 'message',
+                role: 'assistant',
+                model,
+                content,
+                stop_reason: 'end_turn',
+                stop_sequence: null,
+                usage: { input_tokens: 0, output_tokens: 0 },
+            } as SDKAssistantMessage['message'],
+            parent_tool_use_id: null,
+            uuid: randomUUID(),
+            session_id: sessionId,
+        })
+
+        const result = (
+            startedAt: number,
+            numTurns: number,
+            text: string,
+            error?: string,
+        ): SDKResultMessage => {
+            const common = {
+                type: 'result' as const,
+                duration_ms: Date.now() - startedAt,
+                duration_api_ms: 0,
+                num_turns: numTurns,
+                total_cost_usd: scriptOptions.costUsd ?? 0,
+                usage: {
+                    input_tokens: 0,
+                    output_tokens: 0,
+                    cache_creation_input_tokens: 0,
+                    cache_read_input_tokens: 0,
+                } as SDKResultMessage['usage'],
+                modelUsage: {},
+                permission_denials: [],
+                uuid: randomUUID(),
+                session_id: sessionId,
+            }
+            return error
+                ? { ...common, subtype: 'error_during_execution', is_error: true, errors: [error] }
+                : { ...common, subtype: 'success', is_error: false, result: text }
+        }
+
+        const findCustomTool = (name: string) =>
+            tools.find(
+                candidate =>
+                    candidate.name === name || `${CUSTOM_TOOL_PREFIX}${candidate.name}` === name,
+            )
+
+        const runTool = async (
+            step: Extract<ScriptedStep, { toolUse: string }>,
+            custom: (typeof tools)[number] | undefined,
+            toolName: string,
+            toolUseId: string,
+        ): Promise<ToolResultBlock> => {
+            let input = step.input ?? {}
+
+            const permission = await options.canUseTool?.(toolName, input, {
+                signal: new AbortController().signal,
+                suggestions: [],
+                toolUseID: toolUseId,
+            })
+            if (permission?.behavior === 'deny') {
+                interrupted ||= permission.interrupt ?? false
+                return {
+                    type: 'tool_result',
+                    tool_use_id: toolUseId,
+                    content: permission.message,
+                    is_error: true,
+                }
+            }
+            input = permission?.updatedInput ?? input
+
+            if (!custom) {
+                return { type: 'tool_result', tool_use_id: toolUseId, content: step.output ?? '' }
+            }
+            try {
+                const output = await custom.handler(
+                    input as Parameters<typeof custom.handler>[0],
+                    {},
+                )
+                return {
+                    type: 'tool_result',
+                    tool_use_id: toolUseId,
+                    content: output.content,
+                    is_error: output.isError,
+                }
+            } catch (err) {
+                return {
+                    type: 'tool_result',
+                    tool_use_id: toolUseId,
+                    content: err instanceof Error ? err.message : String(err),
+                    is_error: true,
+                }
+            }
+        }
+
+        async function* run(): AsyncGenerator<SDKMessage, void> {
+            let initialized = false
+            for await (const userMessage of prompt) {
+                const startedAt = Date.now()
+                if (!initialized) {
+                    initialized = true
+                    const init: SDKSystemMessage = {
+                        type: 'system',
+                        subtype: 'init',
+                        apiKeySource: 'user',
+                        claude_code_version: 'scripted',
+                        cwd: options.cwd ?? process.cwd(),
+                        tools: tools.map(candidate => `${CUSTOM_TOOL_PREFIX}${candidate.name}`),
+                        mcp_servers: Object.keys(options.mcpServers ?? {}).map(name => ({
+                            name,
+                            status: 'connected',
+                        })),
+                        model,
+                        permissionMode,
+                        slash_commands: [],
+                        output_style: 'default',
+                        skills: [],
+                        plugins: [],
+                        uuid: randomUUID(),
+                        session_id: sessionId,
+                    }
+                    yield init
+                }
+
+                const turnIndex = turnIndexes.get(sessionId) ?? 0
+                turnIndexes.set(sessionId, turnIndex + 1)
+                const turn = turns[turnIndex]
+                interrupted = false
+                if (!turn) {
+                    yield result(startedAt, 0, '', `No scripted turn left for message ${turnIndex + 1}`)
+                    continue
+                }
+
+                const steps = typeof turn === 'function' ? await turn(userMessage) : turn
+                let text = ''
+                let numTurns = 1
+                for (const step of steps) {
+                    if (interrupted) break
+                    if ('fail' in step) {
+                        throw new Error(step.fail)
+                    } else if ('message' in step) {
+                        yield step.message
+                    } else if ('text' in step) {
+                        text = step.text
+                        yield assistant([{ type: 'text', text: step.text }])
+                    } else if ('thinking' in step) {
+                        yield assistant([{ type: 'thinking', thinking: step.thinking, signature: '' }])
+                    } else {
+                        const toolUseId = `toolu_${randomUUID().replace(/-/g, '')}`
+                        const custom = findCustomTool(step.toolUse)
+                        const toolName = custom
+                            ? `${CUSTOM_TOOL_PREFIX}${custom.name}`
+                            : step.toolUse
+                        yield assistant([
+                            { type: 'tool_use', id: toolUseId, name: toolName, input: step.input ?? {} },
+                        ])
+                        const toolResult = await runTool(step, custom, toolName, toolUseId)
+                        numTurns++
+                        yield {
+                            type: 'user',
+                            message: {
+                                role: 'user',
+                                content: [toolResult],
+                            } as SDKUserMessage['message'],
+                            parent_tool_use_id: null,
+                            session_id: sessionId,
+                        }
+                    }
+                }
+                yield interrupted
+                    ? result(startedAt, numTurns, text, 'Interrupted')
+                    : result(startedAt, numTurns, text)
+            }
+        }
+
+        return Object.assign(run(), {
+            interrupt: async () => {
+                interrupted = true
+            },
+            setModel: async (next?: string) => {
+                model = next ?? scriptOptions.model ?? 'scripted'
+            },
+            setPermissionMode: async (mode: PermissionMode) => {
+                permissionMode = mode
+            },
+        })
+    }
+}
@@ -1,110 +1,108 @@
-import { randomBytes } from 'crypto'
 import { mkdir } from 'fs/promises'
 import { homedir } from 'os'
 import { join } from 'path'
 import {
-    query,
     createSdkMcpServer,
     tool,
     type Options,
-    type SDKUserMessage,
 } from '@anthropic-ai/claude-agent-sdk'
-import { type ServerWebSocket } from 'bun'
 
 import {
+    CHECKPOINTS_DIR_NAME,
     CONNECTION_TOKEN_TTL_MS,
+    MAX_SESSIONS,
+    MESSAGE_QUEUE_MAX_DEPTH,
     SERVER_PORT,
+    SESSION_SWEEP_INTERVAL_MS,
+    SHUTDOWN_TIMEOUT_MS,
+    TRANSCRIPTS_DIR_NAME,
     WORKSPACE_DIR_NAME,
 } from './const'
+import { constantTimeEqual, verifyRequest, type RequestAuthOptions } from './auth'
+import { createClientTools, findToolConflicts } from './client-tools'
+import { redactConfig, validateQueryConfig } from './config-validation'
+import { createLogger, redactingLogger, type Logger } from './logger'
 import { handleMessage } from './message-handler'
-import { type QueryConfig, type WSOutputMessage } from './types'
-
-const workspaceDirectory =
-    process.env.CASTARI_WORKSPACE || join(homedir(), WORKSPACE_DIR_NAME)
-
-type ConnectionToken = {
-    value: string
-    createdAt: number
-    used: boolean
-}
-
-// Single WebSocket connection (only one allowed)
-let activeConnection: ServerWebSocket | null = null
-
-// Message queue
-const messageQueue: SDKUserMessage[] = []
-
-// Stream reference for interrupts
-let activeStream: ReturnType<typeof query> | null = null
-
-// Stored query configuration
-let queryConfig: QueryConfig = {}
-
-// Connection tokens
-const connectionTokens = new Map<string, ConnectionToken>()
-
-async function ensureWorkspace() {
-    await mkdir(workspaceDirectory, { recursive: true })
-}
-
-function generateConnectionToken() {
-    const value = randomBytes(24).toString('hex')
-    const token: ConnectionToken = {
-        value,
-        createdAt: Date.now(),
-        used: false,
-    }
-    connectionTokens.set(value, token)
-    return value
-}
-
-function cleanupTokens() {
-    const now = Date.now()
-    for (const [value, token] of connectionTokens.entries()) {
-        if (token.used || now - token.createdAt > CONNECTION_TOKEN_TTL_MS) {
-            connectionTokens.delete(value)
-        }
-    }
-}
-
-function validateAndUseToken(value: string | null) {
-    cleanupTokens()
-    if (!value) return false
-    const token = connectionTokens.get(value)
-    if (!token) return false
-    const isExpired = Date.now() - token.createdAt > CONNECTION_TOKEN_TTL_MS
-    if (token.used || isExpired) {
-        connectionTokens.delete(value)
-        return false
-    }
-    token.used = true
-    connectionTokens.set(value, token)
-    return true
-}
+import { messagePreview } from './message-queue'
+import { type PathPolicyOptions } from './path-policy'
+import { resolveCanUseTool, type PermissionPolicy } from './permissions'
+import { connectedMessage } from './protocol'
+import { sdkQueryBackend, type QueryBackend } from './query-backend'
+import {
+    createSessionManager,
+    disabledCapabilities,
+    emit,
+    getSessionStatus,
+    recordError,
+    recordResult,
+    replay,
+    type ConnectionData,
+    type Session,
+} from './session'
+import { readTranscript, type TranscriptOptions } from './transcript'
+import {
+    type QueryConfig,
+    type QueryConfigUpdate,
+    type StatusSnapshot,
+} from './types'
 
-// Create an async generator that yields messages from the queue
-async function* generateMessages() {
+// Hand queued messages to the agent one turn at a time, until the session closes
+async function* generateMessages(session: Session) {
     while (true) {
-        while (messageQueue.length > 0) {
-            const message = messageQueue.shift()
-            if (message) {
-                yield message
-            }
+        const item = await session.messageQueue.take()
+        if (!item) return
+        // Snapshot the workspace before the agent can touch it
+        const checkpoint = await session.checkpoints?.create(item.id, messagePreview(item.message))
+        if (checkpoint) {
+            emit(session, { type: 'checkpoint_created', checkpoint })
         }
-        await new Promise(resolve => setTimeout(resolve, 10))
+        emit(session, { type: 'message_started', messageId: item.id })
+        yield item.message
     }
 }
 
-// Process messages from the SDK and send to WebSocket client
-async function processMessages(initialOptions: CastariServerOptions) {
+// Process messages from the SDK and send to the session's WebSocket client
+async function processMessages(
+    session: Session,
+    initialOptions: CastariServerOptions,
+    logger: Logger,
+) {
     try {
-        // Handle custom tools by creating an SDK MCP server
-        let mcpServers = initialOptions.mcpServers || {}
-        if (initialOptions.tools && initialOptions.tools.length > 0) {
+        // Server-only options are not forwarded to the agent SDK
+        const {
+            port,
+            tools,
+            readOnlyPaths,
+            deniedPaths,
+            permissionPolicy,
+            permissionTimeoutMs,
+            permissionTimeoutDecision,
+            clientToolTimeoutMs,
+            workspaceDirectory,
+            sessionWorkspaces,
+            maxSessions,
+            maxQueueDepth,
+            auth,
+            transcript,
+            checkpoints,
+            queryBackend = sdkQueryBackend,
+            handleSignals,
+            logger: _logger,
+            ...sdkOptions
+        } = initialOptions
+        const { clientTools, ...config } = session.config
+
+        // Handle custom tools (the server's, plus proxies for the client's) with an SDK MCP server
+        const agentTools = [
+            ...(tools ?? []),
+            ...createClientTools(clientTools ?? [], session.clientTools),
+        ]
+        let mcpServers = sdkOptions.mcpServers || {}
+        if (agentTools.length > 0) {
             const sdkServer = createSdkMcpServer({
                 name: 'castari-agent',
                 version: '1.0.0',
-                tools: initialOptions.tools,
+                tools: agentTools,
             })
             mcpServers = {
                 ...mcpServers,
@@ -114,122 +112,441 @@ async function processMessages(initialOptions: CastariServerOptions) {
 
         const options: Options = {
             settingSources: ['local'],
-            cwd: workspaceDirectory,
-            // Auto-approve tool usage (including file writes) inside the sandbox.
-            // Sandboxes are already isolated, so this keeps DX smooth without interactive prompts.
-            canUseTool: async (_toolName, input) => ({
-                behavior: 'allow',
-                updatedInput: input,
-            }),
+            cwd: session.workspaceDirectory,
+            canUseTool: resolveCanUseTool(permissionPolicy ?? 'allow', session.permissions),
             stderr: data => {
-                if (activeConnection) {
-                    const output: WSOutputMessage = {
-                        type: 'info',
-                        data,
-                    }
-                    activeConnection.send(JSON.stringify(output))
-                }
+                emit(session, { type: 'info', data })
             },
-            ...initialOptions, // Merge initial options (tools, systemPrompt, etc.)
+            ...sdkOptions, // Merge initial options (systemPrompt, allowedTools, etc.)
             mcpServers, // Override mcpServers with our injected one
-            ...queryConfig, // Merge dynamic config from /config endpoint (overrides initial)
-            ...(queryConfig.anthropicApiKey || process.env.ANTHROPIC_API_KEY
+            ...config, // Merge dynamic config from /config endpoint (overrides initial)
+            ...(config.anthropicApiKey || process.env.ANTHROPIC_API_KEY
                 ? {
                     env: {
                         PATH: process.env.PATH,
                         ANTHROPIC_API_KEY:
-                            queryConfig.anthropicApiKey || process.env.ANTHROPIC_API_KEY,
+                            config.anthropicApiKey || process.env.ANTHROPIC_API_KEY,
                     },
                 }
                 : {}),
         }
 
-        console.info('Starting query with options', {
-            ...options,
-            prompt: '[generator]', // avoid logging generator internals
+        // Secrets in the options (the API key, including in `env`) are redacted by the logger
+        logger.info(options.resume ? 'Resuming agent session' : 'Starting agent session', {
+            sessionId: session.id,
+            resume: options.resume,
         })
+        logger.debug('Starting query with options', { sessionId: session.id, options })
+
+        session.activeStream = queryBackend(
+            { prompt: generateMessages(session), options },
+            { tools: agentTools },
+        )
+
+        session.streaming = true
+        for await (const message of session.activeStream) {
+            session.agentSessionId = message.session_id
+            if (message.type === 'result') {
+                recordResult(session, message)
+                session.messageQueue.markIdle()
+            }
+            emit(session, { type: 'sdk_message', data: message })
+        }
+    } catch (error) {
+        logger.error('Error processing messages', { sessionId: session.id, error })
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        recordError(session, message)
+        session.permissions.cancelAll({ behavior: 'deny', message: 'Agent stream ended' })
+        session.clientTools.cancelAll('Agent stream ended')
+        emit(session, { type: 'error', error: message })
+    } finally {
+        session.streaming = false
+        session.messageQueue.markIdle()
+    }
+}
 
-        if ((options as any).resume) {
-            console.info(`📋 Resuming session: ${(options as any).resume}`)
-        } else {
-            console.info('📋 Starting new session')
+// Fields the agent SDK can change on a running query; anything else needs a new stream
+const LIVE_CONFIG_FIELDS: (keyof QueryConfigUpdate)[] = ['model', 'permissionMode']
+
+/**
+ * Apply a mid-session config change. Model and permission mode changes go to the running
+ * stream; other changes wait for the current turn, then restart the stream resuming the same
+ * conversation. Changes are applied one at a time, in the order they arrive.
+ */
+function updateConfig(
+    session: Session,
+    changes: QueryConfigUpdate,
+    options: CastariServerOptions,
+    logger: Logger,
+) {
+    const update = session.configChain.then(async () => {
+        const config: QueryConfig = { ...session.config, ...changes }
+        // `set_model` without a model goes back to the default
+        if (config.model === undefined) delete config.model
+        const conflicts = findToolConflicts(config.clientTools, options.tools)
+        if (conflicts.length > 0) {
+            throw new Error(conflicts.map(error => `${error.field} ${error.message}`).join('; '))
         }
 
-        activeStream = query({
-            prompt: generateMessages(),
-            options,
-        })
+        const stream = session.activeStream
+        const live =
+            session.streaming &&
+            stream !== null &&
+            Object.keys(changes).every(key =>
+                LIVE_CONFIG_FIELDS.includes(key as keyof QueryConfigUpdate),
+            )
+        if (live) {
+            if ('model' in changes) await stream.setModel(changes.model)
+            if (changes.permissionMode) await stream.setPermissionMode(changes.permissionMode)
+            session.config = config
+            return { config, applied: 'live' as const }
+        }
 
-        for await (const message of activeStream) {
-            if (activeConnection) {
-                const output: WSOutputMessage = {
-                    type: 'sdk_message',
-                    data: message,
-                }
-                activeConnection.send(JSON.stringify(output))
-            }
+        // Ending the prompt stream lets the current query finish its turn and return
+        await session.messageQueue.suspend()
+        await session.streamTask
+        session.messageQueue.resume()
+        if (session.closed) {
+            throw new Error('Session is closed')
         }
-    } catch (error) {
-        console.error('Error processing messages:', error)
-        if (activeConnection) {
-            const output: WSOutputMessage = {
-                type: 'error',
-                error: error instanceof Error ? error.message : 'Unknown error',
-            }
-            activeConnection.send(JSON.stringify(output))
+        session.config = {
+            ...config,
+            ...(session.agentSessionId ? { resume: session.agentSessionId } : {}),
         }
+        session.activeStream = null
+        session.streamTask = processMessages(session, options, logger)
+        return { config: session.config, applied: 'restart' as const }
+    })
+    session.configChain = update.catch(() => {})
+    return update
+}
+
+export type CastariServerOptions = Partial<Options> &
+    PathPolicyOptions & {
+        /** Port to listen on. Defaults to `CASTARI_PORT` or 3000; `0` picks a free port. */
+        port?: number
+        tools?: ReturnType<typeof tool>[]
+        /**
+         * How tool uses are approved: `'allow'` (default), `'client'` to ask the connected
+         * client via `permission_request`, or a custom `canUseTool` policy function.
+         */
+        permissionPolicy?: PermissionPolicy
+        /** How long a `'client'` permission request waits for an answer. Defaults to 5 minutes. */
+        permissionTimeoutMs?: number
+        /** Decision applied when a `'client'` permission request times out. Defaults to `'deny'`. */
+        permissionTimeoutDecision?: 'allow' | 'deny'
+        /** How long a call to one of the client's tools waits for its result. Defaults to 60s. */
+        clientToolTimeoutMs?: number
+        /** Workspace root. Defaults to `CASTARI_WORKSPACE` or `~/agent-workspace`. */
+        workspaceDirectory?: string
+        /**
+         * `'shared'` (default) runs every session in the workspace root; `'isolated'` gives each
+         * session its own `sessions/<id>` directory under the workspace.
+         */
+        sessionWorkspaces?: 'isolated' | 'shared'
+        /** Maximum number of concurrent sessions. Defaults to 10. */
+        maxSessions?: number
+        /** Queued user messages per session before `queue_full` errors. Defaults to 100. */
+        maxQueueDepth?: number
+        /**
+         * Require a shared secret (or a request signed with it) on `/config`.
+         * Defaults to `CASTARI_CONFIG_SECRET` when that is set.
+         */
+        auth?: RequestAuthOptions
+        /**
+         * Append every message in and out of each session to `<sessionId>.jsonl` under
+         * `<workspace>/.castari/transcripts`. Enabled by default; pass options to rotate by size.
+         */
+        transcript?: boolean | TranscriptOptions
+        /**
+         * Snapshot each session's workspace into a hidden git repository under
+         * `<workspace>/.castari/checkpoints` before every turn, so clients can diff and restore
+         * it. Enabled by default; needs `git` on the PATH.
+         */
+        checkpoints?: boolean
+        /**
+         * Starts each session's agent stream. Defaults to the agent SDK's `query()`; pass
+         * `createScriptedQuery()` to test an agent without calling the Anthropic API.
+         */
+        queryBackend?: QueryBackend
+        /** Shut down gracefully on SIGTERM/SIGINT, then exit. Defaults to true. */
+        handleSignals?: boolean
+        /**
+         * Where server logs go. Defaults to `createLogger()` (text on the console); use
+         * `createLogger({ format: 'json' })` for log pipelines. Secrets are always redacted.
+         */
+        logger?: Logger
     }
+
+export type StopOptions = {
+    /**
+     * Interrupt agent streams and let in-flight file operations finish before closing
+     * sockets. Defaults to true; `false` closes everything immediately.
+     */
+    graceful?: boolean
+    /** Upper bound for a graceful shutdown. Defaults to 10s. */
+    timeoutMs?: number
 }
 
-export type CastariServerOptions = Partial<Options> & {
-    port?: number
-    tools?: ReturnType<typeof tool>[]
+/** A running server, returned by `serve()` */
+export type CastariServer = {
+    /** The port actually bound, useful with `port: 0` */
+    port: number
+    /** HTTP base URL, e.g. to pass as a client's `connectionUrl` */
+    url: string
+    /**
+     * Tell clients the server is `shutting_down`, close every session (close code 1001) and
+     * stop listening. Calling it again returns the same promise.
+     */
+    stop: (options?: StopOptions) => Promise<void>
 }
 
-export async function serve(options: CastariServerOptions = {}) {
-    await ensureWorkspace()
+export async function serve(options: CastariServerOptions = {}): Promise<CastariServer> {
+    const workspaceDirectory =
+        options.workspaceDirectory ||
+        process.env.CASTARI_WORKSPACE ||
+        join(homedir(), WORKSPACE_DIR_NAME)
+    await mkdir(workspaceDirectory, { recursive: true })
+    const logger = options.logger ? redactingLogger(options.logger) : createLogger()
+
+    const transcript =
+        options.transcript === false
+            ? null
+            : {
+                ...(options.transcript === true ? {} : options.transcript),
+                directory:
+                    (options.transcript !== true && options.transcript?.directory) ||
+                    join(workspaceDirectory, TRANSCRIPTS_DIR_NAME),
+            }
+
+    const checkpoints =
+        options.checkpoints === false
+            ? null
+            : { directory: join(workspaceDirectory, CHECKPOINTS_DIR_NAME) }
+
+    const sessions = createSessionManager({
+        workspaceRoot: workspaceDirectory,
+        isolateWorkspaces: options.sessionWorkspaces === 'isolated',
+        maxSessions: options.maxSessions ?? MAX_SESSIONS,
+        maxQueueDepth: options.maxQueueDepth ?? MESSAGE_QUEUE_MAX_DEPTH,
+        pathPolicy: {
+            readOnlyPaths: options.readOnlyPaths,
+            deniedPaths: options.deniedPaths,
+        },
+        permissions: {
+            timeoutMs: options.permissionTimeoutMs,
+            timeoutDecision: options.permissionTimeoutDecision,
+        },
+        clientTools: { timeoutMs: options.clientToolTimeoutMs },
+        transcript,
+        checkpoints,
+        logger,
+    })
+
+    // Transcripts outlive their sessions, so they are read from disk rather than from the session
+    const loadTranscript = async (sessionId: string, since?: number) => {
+        if (!transcript) {
+            throw new Error('Transcripts are disabled on this server')
+        }
+        await sessions.get(sessionId)?.transcript?.flush()
+        return readTranscript(transcript.directory, sessionId, {
+            since,
+            maxFiles: transcript.maxFiles,
+        })
+    }
+
+    const auth =
+        options.auth ??
+        (process.env.CASTARI_CONFIG_SECRET
+            ? { secret: process.env.CASTARI_CONFIG_SECRET }
+            : undefined)
+
+    const startedAt = Date.now()
+    let stopping: Promise<void> | null = null
+    const sweepTimer = setInterval(() => sessions.sweepIdle(), SESSION_SWEEP_INTERVAL_MS)
+    sweepTimer.unref()
 
     // Create WebSocket server
-    const server = Bun.serve({
-        port: options.port || SERVER_PORT,
+    const server = Bun.serve<ConnectionData>({
+        port:
+            options.port ??
+            (process.env.CASTARI_PORT ? Number(process.env.CASTARI_PORT) : SERVER_PORT),
         async fetch(req, server) {
             const url = new URL(req.url)
 
-            // Configuration endpoint
-            if (url.pathname === '/config' && req.method === 'POST') {
-                try {
-                    const config = (await req.json()) as QueryConfig
-                    queryConfig = config
-                    const connectionToken = generateConnectionToken()
+            // Liveness probe; deliberately unauthenticated and cheap
+            if (url.pathname === '/health' && req.method === 'GET') {
+                return Response.json(
+                    { status: stopping ? 'shutting_down' : 'ok', uptimeMs: Date.now() - startedAt },
+                    { status: stopping ? 503 : 200 },
+                )
+            }
+
+            // No new sessions or connections once shutdown has begun
+            if (stopping && (req.method === 'POST' || url.pathname === '/ws')) {
+                return Response.json({ error: 'Server is shutting down' }, { status: 503 })
+            }
+
+            // Session status and usage: one session with ?sessionId=, otherwise all of them
+            if (url.pathname === '/status' && req.method === 'GET') {
+                if (auth && !(await verifyRequest(req, '', auth))) {
+                    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+                }
+                const uptimeMs = Date.now() - startedAt
+                const sessionId = url.searchParams.get('sessionId')
+                if (!sessionId) {
                     return Response.json({
-                        success: true,
-                        config: queryConfig,
-                        connectionToken,
+                        uptimeMs,
+                        sessions: sessions.list().map(getSessionStatus),
                     })
+                }
+                const session = sessions.get(sessionId)
+                if (!session) {
+                    return Response.json({ error: 'Session not found' }, { status: 404 })
+                }
+                const snapshot: StatusSnapshot = {
+                    uptimeMs,
+                    session: getSessionStatus(session),
+                }
+                return Response.json(snapshot)
+            }
+
+            // A session's transcript, available after the session has closed. Transcripts hold
+            // whole conversations, so unlike the other endpoints this one is never unauthenticated.
+            if (url.pathname === '/transcript' && req.method === 'GET') {
+                if (!auth) {
+                    return Response.json(
+                        { error: 'Set auth on the server to fetch transcripts over HTTP' },
+                        { status: 403 },
+                    )
+                }
+                if (!(await verifyRequest(req, '', auth))) {
+                    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+                }
+                if (!transcript) {
+                    return Response.json({ error: 'Transcripts are disabled' }, { status: 404 })
+                }
+                const sessionId = url.searchParams.get('sessionId')
+                if (!sessionId) {
+                    return Response.json({ error: 'sessionId is required' }, { status: 400 })
+                }
+                const sinceParam = url.searchParams.get('since')
+                const since = sinceParam === null ? undefined : Number(sinceParam)
+                if (since !== undefined && !Number.isFinite(since)) {
+                    return Response.json(
+                        { error: 'since must be a timestamp in milliseconds' },
+                        { status: 400 },
+                    )
+                }
+                const entries = await loadTranscript(sessionId, since)
+                if (!entries) {
+                    return Response.json({ error: 'Transcript not found' }, { status: 404 })
+                }
+                return Response.json({ sessionId, entries })
+            }
+
+            // Configuration endpoint: every call creates a new session
+            if (url.pathname === '/config' && req.method === 'POST') {
+                const body = await req.text()
+                if (auth && !(await verifyRequest(req, body, auth))) {
+                    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+                }
+
+                let payload: unknown
+                try {
+                    payload = JSON.parse(body)
                 } catch {
                     return Response.json({ error: 'Invalid JSON' }, { status: 400 })
                 }
+                const validation = validateQueryConfig(payload)
+                const errors = validation.ok
+                    ? findToolConflicts(validation.config.clientTools, options.tools)
+                    : validation.errors
+                if (!validation.ok || errors.length > 0) {
+                    return Response.json(
+                        { error: 'Invalid config', fields: errors },
+                        { status: 400 },
+                    )
+                }
+
+                const session = await sessions.create(validation.config)
+                if (!session) {
+                    return Response.json(
+                        { error: 'Session limit reached' },
+                        { status: 429 },
+                    )
+                }
+                return Response.json({
+                    success: true,
+                    config: redactConfig(session.config),
+                    sessionId: session.id,
+                    connectionToken: sessions.issueConnectionToken(session),
+                    connectionTokenExpiresAt: Date.now() + CONNECTION_TOKEN_TTL_MS,
+                    reconnectToken: session.reconnectToken,
+                })
             }
 
-            // Get current configuration
+            // Get a session's configuration (the only session's when there is just one)
             if (url.pathname === '/config' && req.method === 'GET') {
-                return Response.json({ config: queryConfig })
+                if (auth && !(await verifyRequest(req, '', auth))) {
+                    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+                }
+                const sessionId = url.searchParams.get('sessionId')
+                const all = sessions.list()
+                const session = sessionId
+                    ? sessions.get(sessionId)
+                    : all.length === 1
+                        ? all[0]
+                        : undefined
+                if (!session) {
+                    return Response.json(
+                        { error: sessionId ? 'Session not found' : 'sessionId is required' },
+                        { status: sessionId ? 404 : 400 },
+                    )
+                }
+                return Response.json({
+                    sessionId: session.id,
+                    config: redactConfig(session.config),
+                })
+            }
+
+            // Issue a fresh connection token to a client that lost its socket
+            if (url.pathname === '/reconnect' && req.method === 'POST') {
+                const body = (await req.json().catch(() => null)) as {
+                    sessionId?: string
+                    reconnectToken?: string
+                } | null
+                const session = body?.sessionId ? sessions.get(body.sessionId) : undefined
+                if (
+                    !session ||
+                    typeof body?.reconnectToken !== 'string' ||
+                    !constantTimeEqual(body.reconnectToken, session.reconnectToken)
+                ) {
+                    return new Response('Unauthorized', { status: 401 })
+                }
+                return Response.json({
+                    connectionToken: sessions.issueConnectionToken(session),
+                })
             }
 
             // WebSocket endpoint
             if (url.pathname === '/ws') {
-                const token = url.searchParams.get('token')
-                if (!validateAndUseToken(token)) {
+                const session = sessions.redeemConnectionToken(url.searchParams.get('token'))
+                if (!session) {
                     return new Response('Unauthorized', { status: 401 })
                 }
 
-                if (activeConnection) {
-                    return new Response('Server already has an active connection', {
+                const lastSeqParam = url.searchParams.get('lastSeq')
+                const lastSeq = lastSeqParam === null ? null : Number(lastSeqParam)
+
+                // Reconnecting clients replace a socket the server hasn't noticed is dead yet
+                if (session.connection && lastSeq === null) {
+                    return new Response('Session already has an active connection', {
                         status: 409,
                     })
                 }
 
-                if (server.upgrade(req)) return
+                if (server.upgrade(req, { data: { sessionId: session.id, lastSeq } })) return
             }
 
             return new Response('Not Found', { status: 404 })
@@ -241,34 +558,150 @@ export async function serve(options: CastariServerOptions = {}) {
             sendPings: true,
 
             open(ws) {
-                activeConnection = ws
+                const session = sessions.get(ws.data.sessionId)
+                if (!session) {
+                    ws.close(4004, 'Session not found')
+                    return
+                }
+
+                const previous = session.connection
+                session.connection = ws
+                session.disconnectedAt = null
+                if (previous) {
+                    previous.close(4000, 'Replaced by a reconnecting client')
+                }
 
-                // Start processing messages when first connection is made
-                if (!activeStream) {
-                    processMessages(options)
+                // Start processing messages when the session's first connection is made
+                if (!session.streamTask) {
+                    session.streamTask = processMessages(session, options, logger)
                 }
 
-                const output: WSOutputMessage = { type: 'connected' }
-                ws.send(JSON.stringify(output))
+                const { lastSeq } = ws.data
+                if (lastSeq !== null && Number.isFinite(lastSeq)) {
+                    replay(session, ws, lastSeq)
+                } else {
+                    const connected = connectedMessage({ disabled: disabledCapabilities(session) })
+                    ws.send(JSON.stringify(connected))
+                }
             },
 
             async message(ws, message) {
-                await handleMessage(ws, message, {
-                    messageQueue,
-                    getActiveStream: () => activeStream,
-                    workspaceDirectory,
+                const session = sessions.get(ws.data.sessionId)
+                if (!session || session.connection !== ws || stopping) return
+                const operation = handleMessage(message, {
+                    send: output => emit(session, output),
+                    messageQueue: session.messageQueue,
+                    getActiveStream: () => session.activeStream,
+                    workspaceDirectory: session.workspaceDirectory,
+                    pathPolicy: session.pathPolicy,
+                    permissions: session.permissions,
+                    clientTools: session.clientTools,
+                    transfers: session.transfers,
+                    fileWatcher: session.fileWatcher,
+                    getStatus: () => ({
+                        uptimeMs: Date.now() - startedAt,
+                        session: getSessionStatus(session),
+                    }),
+                    updateConfig: changes => updateConfig(session, changes, options, logger),
+                    onInput: input => session.transcript?.record('in', input),
+                    readTranscript: async since =>
+                        (await loadTranscript(session.id, since)) ?? [],
+                    checkpoints: session.checkpoints,
                 })
+                // Tracked so a graceful shutdown can let file writes and the like finish
+                session.pendingOperations.add(operation)
+                await operation.finally(() => session.pendingOperations.delete(operation))
             },
 
-            close(ws) {
-                if (activeConnection === ws) {
-                    activeConnection = null
+            close(ws, code) {
+                const session = sessions.get(ws.data.sessionId)
+                if (!session || session.connection !== ws) return
+                session.connection = null
+                session.disconnectedAt = Date.now()
+                // A normal close means the client is done; anything else may be followed by a reconnect
+                if (code === 1000) {
+                    sessions.close(session, 'Client disconnected')
                 }
             },
         },
     })
 
-    console.log(`🚀 Castari Server running on http://localhost:${server.port}`)
-    console.log(`   Config endpoint: http://localhost:${server.port}/config`)
-    console.log(`   WebSocket endpoint: ws://localhost:${server.port}/ws?token=<token>`)
+    // Always set for TCP servers; resolves an ephemeral `port: 0` to the port actually bound
+    const port = server.port ?? 0
+    const url = `http://localhost:${port}`
+
+    logger.info('Castari server running', {
+        url,
+        configEndpoint: `${url}/config`,
+        statusEndpoint: `${url}/status`,
+        websocketEndpoint: `ws://localhost:${port}/ws`,
+    })
+
+    const shutdown = async (graceful: boolean, timeoutMs: number) => {
+        clearInterval(sweepTimer)
+        const reason = 'Server shutting down'
+        const active = sessions.list()
+        for (const session of active) {
+            emit(session, {
+                type: 'shutting_down',
+                reason,
+                graceful,
+                ...(graceful ? { timeoutMs } : {}),
+            })
+        }
+
+        if (graceful) {
+            const drained = Promise.all(
+                active.map(session =>
+                    Promise.allSettled([
+                        session.activeStream?.interrupt(),
+                        ...session.pendingOperations,
+                    ]),
+                ),
+            )
+            let timer: ReturnType<typeof setTimeout> | undefined
+            await Promise.race([
+                drained,
+                new Promise(resolve => {
+                    timer = setTimeout(resolve, timeoutMs)
+                }),
+            ])
+            clearTimeout(timer)
+        }
+
+        // 1001 (going away) tells clients the server, not the session, is ending
+        for (const session of active) {
+            sessions.close(session, reason, 1001)
+        }
+        await Promise.all(active.map(session => session.transcript?.flush()))
+        await server.stop(true)
+        if (handleSignals) {
+            process.off('SIGTERM', onSignal)
+            process.off('SIGINT', onSignal)
+        }
+    }
+
+    const stop: CastariServer['stop'] = (stopOptions = {}) => {
+        stopping ??= shutdown(
+            stopOptions.graceful ?? true,
+            stopOptions.timeoutMs ?? SHUTDOWN_TIMEOUT_MS,
+        )
+        return stopping
+    }
+
+    const handleSignals = options.handleSignals ?? true
+    const onSignal = (signal: NodeJS.Signals) => {
+        logger.info('Received signal, shutting down', { signal })
+        stop().finally(() => process.exit(0))
+    }
+    if (handleSignals) {
+        process.once('SIGTERM', onSignal)
+        process.once('SIGINT', onSignal)
+    }
+
+    return {
+        port,
+        url,
+        stop,
+    }
 }
@@ -0,0 +1,208 @@
+import { createAuthHeaders } from './auth'
+import { createLogger, redactingLogger, type Logger } from './logger'
+import {
+    createPlatformProvider,
+    createUrlProvider,
+    type ConnectionDetails,
+    type SandboxProvider,
+} from './sandbox-providers'
+import { type QueryConfig, type SessionTicket } from './types'
+
+const CONFIG_ATTEMPTS = 5
+const CONFIG_RETRY_DELAY_MS = 3000
+
+/** Where to run the agent and how to configure the session. Use server-side only. */
+export interface SessionOptions extends Partial<QueryConfig> {
+    /** Local/custom connection URL (e.g., 'http://localhost:3000'). If omitted, Platform mode is used. */
+    connectionUrl?: string
+    /**
+     * Provisions the sandbox to connect to, e.g. `createLocalProvider()` to spawn the agent as a
+     * child process. Overrides `connectionUrl` and the platform options below.
+     */
+    provider?: SandboxProvider
+    /** Anthropic API key (required unless present in process.env.ANTHROPIC_API_KEY) */
+    anthropicApiKey?: string
+    /** Castari client ID (required for platform mode; otherwise read from env) */
+    clientId?: string
+    /** Castari platform API key (used for auth when contacting the platform) */
+    platformApiKey?: string
+    /** Log connection details at debug level with the default logger */
+    debug?: boolean
+    /** Where logs go. Defaults to `createLogger()`; secrets are always redacted. */
+    logger?: Logger
+
+    /** Connect to this existing platform sandbox instead of creating one (see `CastariPlatform`) */
+    sandboxId?: string
+
+    /** Snapshot name to deploy/start */
+    snapshot?: string
+
+    /** Optional labels to apply to the sandbox (and filter by for reuse) */
+    labels?: Record<string, string>
+
+    /** Optional volume name to mount at /home/castari/agent-workspace */
+    volume?: string
+
+    /** Castari Platform API URL. Defaults to https://api.castari.com (or localhost in dev) */
+    platformUrl?: string
+
+    /** Optional sessionId to resume */
+    resume?: string
+
+    /**
+     * Use the platform API as a WebSocket proxy instead of connecting directly to the sandbox.
+     * Defaults to true for reliability. Set to false to connect directly to the sandbox.
+     */
+    useProxy?: boolean
+
+    /**
+     * Shared secret for agent servers that protect `/config` with `auth`
+     * (defaults to process.env.CASTARI_CONFIG_SECRET)
+     */
+    configSecret?: string
+    /** Sign `/config` requests with `configSecret` instead of sending it as a header */
+    signConfigRequests?: boolean
+}
+
+/** `options.provider`, or the one implied by `connectionUrl` and the platform options */
+export function resolveProvider(options: SessionOptions, logger: Logger): SandboxProvider {
+    if (options.provider) return options.provider
+    // `connectionUrl` targets a running server; otherwise a sandbox is started on the platform
+    if (options.connectionUrl) {
+        return createUrlProvider(options.connectionUrl)
+    }
+    return createPlatformProvider({
+        clientId: options.clientId,
+        apiKey: options.platformApiKey,
+        platformUrl: options.platformUrl,
+        sandboxId: options.sandboxId,
+        snapshot: options.snapshot,
+        labels: options.labels,
+        volume: options.volume,
+        useProxy: options.useProxy,
+        logger,
+    })
+}
+
+/**
+ * Start (or find) a sandbox and configure a session on its agent server, returning a ticket
+ * a `CastariClient` can `connect()` with. Run this where the API keys live, e.g. your
+ * backend, and hand only the ticket to the browser. If configuring the session fails, the
+ * sandbox is stopped again; otherwise stopping it is up to the caller (e.g. via
+ * `options.provider`).
+ */
+export async function createSession(options: SessionOptions = {}): Promise<SessionTicket> {
+    const logger = options.logger
+        ? redactingLogger(options.logger)
+        : createLogger({ level: options.debug ? 'debug' : 'info' })
+    const anthropicApiKey = options.anthropicApiKey || process.env.ANTHROPIC_API_KEY
+    if (!anthropicApiKey) {
+        throw new Error('ANTHROPIC_API_KEY is required')
+    }
+
+    const provider = resolveProvider(options, logger)
+    const connection = await provider.start()
+    try {
+        const configured = await configureServer(connection, options, anthropicApiKey, logger)
+        return {
+            sessionId: configured.sessionId,
+            wsUrl: connection.wsUrl,
+            connectionToken: configured.connectionToken,
+            expiresAt: configured.connectionTokenExpiresAt,
+            authParams: connection.authParams,
+            authHeaders: connection.authHeaders,
+            reconnectUrl: connection.reconnectUrl,
+            reconnectToken: configured.reconnectToken,
+            sandboxId: 'sandboxId' in provider ? (provider.sandboxId as string | undefined) : undefined,
+        }
+    } catch (error) {
+        // Deletes only a sandbox the provider created
+        await provider.stop()
+        throw error
+    }
+}
+
+// POST the session config to the agent server, retrying while it boots
+async function configureServer(
+    connection: ConnectionDetails,
+    options: SessionOptions,
+    anthropicApiKey: string,
+    logger: Logger,
+) {
+    logger.debug('Configuring server', { configUrl: connection.configUrl })
+
+    const configPayload: QueryConfig & { anthropicApiKey: string } = {
+        anthropicApiKey,
+        agents: options.agents,
+        allowedTools: options.allowedTools,
+        systemPrompt: options.systemPrompt,
+        model: options.model,
+        permissionMode: options.permissionMode,
+        clientTools: options.clientTools,
+        resume: options.resume,
+    }
+
+    logger.debug('Sending config', { config: configPayload })
+
+    const configBody = JSON.stringify(configPayload)
+    const configSecret = options.configSecret || process.env.CASTARI_CONFIG_SECRET
+
+    let configResponse: Response | null = null
+    for (let attempt = 1; attempt <= CONFIG_ATTEMPTS; attempt++) {
+        // Signatures are timestamped, so each attempt is signed afresh
+        const configHeaders: Record<string, string> = {
+            'Content-Type': 'application/json',
+            ...connection.authHeaders,
+            ...(configSecret
+                ? await createAuthHeaders(
+                    configSecret,
+                    'POST',
+                    '/config',
+                    configBody,
+                    !!options.signConfigRequests,
+                )
+                : {}),
+        }
+        configResponse = await fetch(connection.configUrl, {
+            method: 'POST',
+            headers: configHeaders,
+            body: configBody,
+        }).catch(error => {
+            logger.debug('Config request failed', { attempt, error })
+            return null
+        })
+
+        if (configResponse && configResponse.ok) break
+        // Auth and validation failures won't succeed on retry
+        if (configResponse && [400, 401, 403].includes(configResponse.status)) break
+
+        logger.debug('Config attempt failed', {
+            attempt,
+            status: configResponse?.status,
+        })
+        if (attempt < CONFIG_ATTEMPTS) {
+            await new Promise(resolve => setTimeout(resolve, CONFIG_RETRY_DELAY_MS))
+        }
+    }
+
+    if (!configResponse || !configResponse.ok) {
+        const errorText = configResponse ? await configResponse.text() : 'no response'
+        throw new Error(
+            `Failed to configure server (status ${configResponse?.status ?? 'n/a'}): ${errorText}`,
+        )
+    }
+
+    const { connectionToken, connectionTokenExpiresAt, reconnectToken, sessionId } =
+        (await configResponse.json()) as {
+            connectionToken: string
+            connectionTokenExpiresAt?: number
+            reconnectToken?: string
+            sessionId: string
+        }
+
+    if (!connectionToken) {
+        throw new Error('Server did not return a connectionToken')
+    }
+
+    return { sessionId, connectionToken, connectionTokenExpiresAt, reconnectToken }
+}
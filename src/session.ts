@@ -0,0 +1,375 @@
+import { randomBytes, randomUUID } from 'crypto'
+import { mkdir } from 'fs/promises'
+import { join } from 'path'
+import {
+    type SDKResultMessage,
+} from '@anthropic-ai/claude-agent-sdk'
+import { type ServerWebSocket } from 'bun'
+
+import { createCheckpointStore, type CheckpointStore } from './checkpoints'
+import {
+    CONNECTION_TOKEN_TTL_MS,
+    REPLAY_BUFFER_SIZE,
+    SESSION_IDLE_TIMEOUT_MS,
+    SESSIONS_DIR_NAME,
+} from './const'
+import {
+    createClientToolBroker,
+    type ClientToolBroker,
+    type ClientToolBrokerOptions,
+} from './client-tools'
+import { createFileWatcher, type FileWatcher } from './file-watcher'
+import { type Logger } from './logger'
+import { type AgentQuery } from './query-backend'
+import { createMessageQueue, type MessageQueue } from './message-queue'
+import { createPathPolicy, type PathPolicy, type PathPolicyOptions } from './path-policy'
+import {
+    createPermissionBroker,
+    type PermissionBroker,
+    type PermissionBrokerOptions,
+} from './permissions'
+import { connectedMessage, type ProtocolCapability } from './protocol'
+import { createTranscript, type Transcript, type TranscriptOptions } from './transcript'
+import { createTransferManager, type TransferManager } from './transfers'
+import {
+    type QueryConfig,
+    type SessionStatus,
+    type UsageTotals,
+    type WSOutputMessage,
+} from './types'
+
+export type ConnectionData = {
+    sessionId: string
+    /** Last sequence number the client saw; set when the client reconnects */
+    lastSeq: number | null
+}
+
+type SequencedMessage = WSOutputMessage & { seq: number }
+
+type ConnectionToken = {
+    value: string
+    sessionId: string
+    createdAt: number
+    used: boolean
+}
+
+/**
+ * Everything the server tracks for one client session: its config, queue, agent stream,
+ * workspace and connection. Sessions are created by `POST /config`.
+ */
+export type Session = {
+    id: string
+    config: QueryConfig
+    /** Secret issued by /config that lets the client mint new connection tokens via /reconnect */
+    reconnectToken: string
+    workspaceDirectory: string
+    /** False when the session works in its own `sessions/<id>` directory */
+    sharedWorkspace: boolean
+    pathPolicy: PathPolicy
+    permissions: PermissionBroker
+    /** Calls to the client's own tools that are waiting for a `tool_result` */
+    clientTools: ClientToolBroker
+    transfers: TransferManager
+    fileWatcher: FileWatcher
+    /** Client messages still being handled, e.g. file writes; awaited on graceful shutdown */
+    pendingOperations: Set<Promise<void>>
+    /** Records every message in and out of the session; null when transcripts are disabled */
+    transcript: Transcript | null
+    /** Workspace snapshots taken at the start of each turn; null when checkpoints are disabled */
+    checkpoints: CheckpointStore | null
+    messageQueue: MessageQueue
+    activeStream: AgentQuery | null
+    /** Settles when the current agent stream has been fully consumed */
+    streamTask: Promise<void> | null
+    /** The agent SDK's session ID, used to resume the conversation when the stream restarts */
+    agentSessionId: string | null
+    /** Serializes mid-session config changes */
+    configChain: Promise<unknown>
+    /** True while the agent stream is being consumed; false before it starts and after it ends */
+    streaming: boolean
+    connection: ServerWebSocket<ConnectionData> | null
+    // Sequence numbers and the bounded buffer replayed to reconnecting clients
+    nextSeq: number
+    replayBuffer: SequencedMessage[]
+    /** When the session last lost (or never had) a connection; null while connected */
+    disconnectedAt: number | null
+    closed: boolean
+    createdAt: number
+    usage: UsageTotals
+    lastError: SessionStatus['lastError']
+}
+
+export type SessionManagerOptions = {
+    workspaceRoot: string
+    /** Give each session its own `<workspaceRoot>/sessions/<id>` directory */
+    isolateWorkspaces: boolean
+    maxSessions: number
+    maxQueueDepth: number
+    pathPolicy: PathPolicyOptions
+    permissions: Omit<PermissionBrokerOptions, 'emit'>
+    clientTools: Omit<ClientToolBrokerOptions, 'emit'>
+    transcript: (TranscriptOptions & { directory: string }) | null
+    /** Where each session's checkpoint repository is created, as `<directory>/<id>` */
+    checkpoints: { directory: string } | null
+    logger: Logger
+}
+
+export type SessionManager = {
+    /** Create a session for a new client, or return null when the session limit is reached */
+    create: (config: QueryConfig) => Promise<Session | null>
+    get: (sessionId: string) => Session | undefined
+    list: () => Session[]
+    /**
+     * Interrupt the session's stream, disconnect its client (with close code 1000 unless
+     * another is given) and forget it
+     */
+    close: (session: Session, reason?: string, code?: number) => void
+    issueConnectionToken: (session: Session) => string
+    /** Consume a one-time connection token, returning the session it was issued for */
+    redeemConnectionToken: (value: string | null) => Session | null
+    /** Close sessions that have been disconnected for longer than the idle timeout */
+    sweepIdle: () => void
+}
+
+// Sequence, buffer and deliver a message to the session's client (buffered even if nobody is connected)
+export function emit(session: Session, message: WSOutputMessage) {
+    const sequenced: SequencedMessage = { ...message, seq: session.nextSeq++ }
+    session.transcript?.record('out', sequenced)
+    session.replayBuffer.push(sequenced)
+    if (session.replayBuffer.length > REPLAY_BUFFER_SIZE) {
+        session.replayBuffer.shift()
+    }
+    session.connection?.send(JSON.stringify(sequenced))
+}
+
+// Deliver a message without sequencing or buffering it (bulk transfer data is resumed, not replayed)
+export function sendUnbuffered(session: Session, message: WSOutputMessage) {
+    session.connection?.send(JSON.stringify(message))
+}
+
+/** Capabilities left out of the session's `connected` messages */
+export function disabledCapabilities(session: Session): ProtocolCapability[] {
+    const disabled: ProtocolCapability[] = []
+    if (!session.transcript) disabled.push('transcripts')
+    if (!session.checkpoints) disabled.push('checkpoints')
+    if (!session.sharedWorkspace) disabled.push('shared_workspace')
+    return disabled
+}
+
+// Send everything emitted after `lastSeq` to a reconnected client
+export function replay(
+    session: Session,
+    ws: ServerWebSocket<ConnectionData>,
+    lastSeq: number,
+) {
+    const missed = session.replayBuffer.filter(message => message.seq > lastSeq)
+    const oldestSeq = session.replayBuffer[0]?.seq ?? session.nextSeq
+    const connected = connectedMessage({
+        replay: {
+            fromSeq: lastSeq,
+            count: missed.length,
+            dropped: Math.max(0, oldestSeq - lastSeq - 1),
+        },
+        disabled: disabledCapabilities(session),
+    })
+    ws.send(JSON.stringify(connected))
+    for (const message of missed) {
+        ws.send(JSON.stringify(message))
+    }
+}
+
+// Add an SDK `result` message to the session's usage totals
+export function recordResult(session: Session, result: SDKResultMessage) {
+    const { usage } = session
+    usage.inputTokens += result.usage?.input_tokens ?? 0
+    usage.outputTokens += result.usage?.output_tokens ?? 0
+    usage.cacheCreationInputTokens += result.usage?.cache_creation_input_tokens ?? 0
+    usage.cacheReadInputTokens += result.usage?.cache_read_input_tokens ?? 0
+    usage.totalCostUsd += result.total_cost_usd ?? 0
+    usage.numTurns += result.num_turns ?? 0
+    usage.results++
+    if (result.subtype !== 'success') {
+        recordError(session, result.errors?.join('; ') || result.subtype)
+    }
+}
+
+export function recordError(session: Session, message: string) {
+    session.lastError = { message, at: Date.now() }
+}
+
+export function getSessionStatus(session: Session): SessionStatus {
+    return {
+        sessionId: session.id,
+        connected: session.connection !== null,
+        queueDepth: session.messageQueue.length,
+        streamActive: session.streaming,
+        busy: session.messageQueue.current !== null,
+        currentMessageId: session.messageQueue.current,
+        createdAt: session.createdAt,
+        lastError: session.lastError,
+        usage: { ...session.usage },
+    }
+}
+
+export function createSessionManager(options: SessionManagerOptions): SessionManager {
+    const sessions = new Map<string, Session>()
+    const connectionTokens = new Map<string, ConnectionToken>()
+    // Sessions still being set up count against `maxSessions`, so parallel creates can't overshoot
+    let pendingCreates = 0
+
+    const cleanupTokens = () => {
+        const now = Date.now()
+        for (const [value, token] of connectionTokens.entries()) {
+            if (
+                token.used ||
+                now - token.createdAt > CONNECTION_TOKEN_TTL_MS ||
+                !sessions.has(token.sessionId)
+            ) {
+                connectionTokens.delete(value)
+            }
+        }
+    }
+
+    const close: SessionManager['close'] = (session, reason = 'Session closed', code = 1000) => {
+        if (session.closed) return
+        session.closed = true
+        sessions.delete(session.id)
+        session.messageQueue.close()
+        session.permissions.cancelAll({ behavior: 'deny', message: reason })
+        session.clientTools.cancelAll(reason)
+        void session.transfers.cancelAll()
+        session.fileWatcher.closeAll()
+        session.activeStream?.interrupt().catch(() => {})
+        session.connection?.close(code, reason)
+        session.connection = null
+        cleanupTokens()
+    }
+
+    return {
+        async create(config) {
+            if (sessions.size + pendingCreates >= options.maxSessions) return null
+
+            const id = randomUUID()
+            const workspaceDirectory = options.isolateWorkspaces
+                ? join(options.workspaceRoot, SESSIONS_DIR_NAME, id)
+                : options.workspaceRoot
+            pendingCreates++
+            try {
+                await mkdir(workspaceDirectory, { recursive: true })
+            } finally {
+                pendingCreates--
+            }
+
+            const pathPolicy = createPathPolicy(workspaceDirectory, options.pathPolicy)
+            const session: Session = {
+                id,
+                config,
+                reconnectToken: randomBytes(24).toString('hex'),
+                workspaceDirectory,
+                sharedWorkspace: !options.isolateWorkspaces,
+                // Every client file operation is confined to the session workspace
+                pathPolicy,
+                permissions: createPermissionBroker({
+                    ...options.permissions,
+                    emit: message => emit(session, message),
+                }),
+                clientTools: createClientToolBroker({
+                    ...options.clientTools,
+                    emit: message => emit(session, message),
+                }),
+                transfers: createTransferManager({
+                    send: message => sendUnbuffered(session, message),
+                    pathPolicy,
+                }),
+                fileWatcher: createFileWatcher({
+                    send: message => emit(session, message),
+                    pathPolicy,
+                    logger: options.logger,
+                }),
+                pendingOperations: new Set(),
+                transcript: options.transcript
+                    ? createTranscript(id, options.transcript, options.logger)
+                    : null,
+                checkpoints: options.checkpoints
+                    ? createCheckpointStore({
+                        workspaceDirectory,
+                        directory: join(options.checkpoints.directory, id),
+                        excludedPaths: [
+                            ...(options.pathPolicy.readOnlyPaths ?? []),
+                            ...(options.pathPolicy.deniedPaths ?? []),
+                        ],
+                        logger: options.logger,
+                    })
+                    : null,
+                messageQueue: createMessageQueue({ maxDepth: options.maxQueueDepth }),
+                activeStream: null,
+                streamTask: null,
+                agentSessionId: null,
+                configChain: Promise.resolve(),
+                streaming: false,
+                connection: null,
+                nextSeq: 1,
+                replayBuffer: [],
+                disconnectedAt: Date.now(),
+                closed: false,
+                createdAt: Date.now(),
+                usage: {
+                    inputTokens: 0,
+                    outputTokens: 0,
+                    cacheCreationInputTokens: 0,
+                    cacheReadInputTokens: 0,
+                    totalCostUsd: 0,
+                    numTurns: 0,
+                    results: 0,
+                },
+                lastError: null,
+            }
+            sessions.set(id, session)
+            return session
+        },
+
+        get: sessionId => sessions.get(sessionId),
+
+        list: () => [...sessions.values()],
+
+        close,
+
+        issueConnectionToken(session) {
+            const value = randomBytes(24).toString('hex')
+            connectionTokens.set(value, {
+                value,
+                sessionId: session.id,
+                createdAt: Date.now(),
+                used: false,
+            })
+            return value
+        },
+
+        redeemConnectionToken(value) {
+            cleanupTokens()
+            if (!value) return null
+            const token = connectionTokens.get(value)
+            if (!token) return null
+            const isExpired = Date.now() - token.createdAt > CONNECTION_TOKEN_TTL_MS
+            if (token.used || isExpired) {
+                connectionTokens.delete(value)
+                return null
+            }
+            token.used = true
+            return sessions.get(token.sessionId) ?? null
+        },
+
+        sweepIdle() {
+            const now = Date.now()
+            for (const session of sessions.values()) {
+                if (
+                    session.disconnectedAt !== null &&
+                    now - session.disconnectedAt > SESSION_IDLE_TIMEOUT_MS
+                ) {
+                    close(session, 'Session expired')
+                }
+            }
+            cleanupTokens()
+        },
+    }
+}
@@ -0,0 +1,83 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { CastariClient, type ClientOptions } from './client'
+import { silentLogger } from './logger'
+import { type QueryBackend } from './query-backend'
+import { createScriptedQuery, type ScriptedTurn } from './scripted-query'
+import { serve, type CastariServer, type CastariServerOptions } from './server'
+
+export * from './scripted-query'
+
+export type TestAgentOptions = Omit<CastariServerOptions, 'port' | 'queryBackend'> & {
+    /** Turns played back by `createScriptedQuery()`, one per user message */
+    script?: ScriptedTurn[]
+    /** Use another backend instead of the scripted one */
+    queryBackend?: QueryBackend
+    /** Extra client options; the connection URL always points at the test server */
+    client?: Omit<ClientOptions, 'connectionUrl'>
+}
+
+export type TestAgent = {
+    server: CastariServer
+    /** A client that has already started and connected */
+    client: CastariClient
+    workspaceDirectory: string
+    /** Stop the client and server and remove the temporary workspace */
+    stop: () => Promise<void>
+}
+
+/**
+ * Start `serve()` on an ephemeral port with a scripted query backend and connect a
+ * `CastariClient` to it, so whole conversations can be asserted without an Anthropic API key.
+ * Both sides log nowhere unless a `logger` is passed:
+ *
+ * ```typescript
+ * const agent = await createTestAgent({ tools: [weatherTool], script: [[{ toolUse: 'get_weather' }, { text: 'Sunny' }]] })
+ * const result = await agent.client.query('Weather in Paris?').result()
+ * expect(result.text).toBe('Sunny')
+ * await agent.stop()
+ * ```
+ */
+export async function createTestAgent(options: TestAgentOptions = {}): Promise<TestAgent> {
+    const { script = [], queryBackend, client: clientOptions, ...serverOptions } = options
+    const workspaceDirectory =
+        serverOptions.workspaceDirectory ?? (await mkdtemp(join(tmpdir(), 'castari-test-')))
+
+    const server = await serve({
+        logger: silentLogger,
+        ...serverOptions,
+        workspaceDirectory,
+        port: 0,
+        handleSignals: false,
+        queryBackend: queryBackend ?? createScriptedQuery(script),
+    })
+
+    const client = new CastariClient({
+        anthropicApiKey: 'test',
+        configSecret: serverOptions.auth?.secret,
+        logger: silentLogger,
+        ...clientOptions,
+        connectionUrl: server.url,
+    })
+    try {
+        await client.start()
+    } catch (err) {
+        await server.stop()
+        throw err
+    }
+
+    return {
+        server,
+        client,
+        workspaceDirectory,
+        async stop() {
+            await client.stop()
+            await server.stop()
+            if (!serverOptions.workspaceDirectory) {
+                await rm(workspaceDirectory, { recursive: true, force: true })
+            }
+        },
+    }
+}
@@ -0,0 +1,142 @@
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk'
+
+import type { TranscriptEntry, WSInputMessage, WSOutputMessage } from './types'
+
+export type TranscriptExportFormat = 'markdown' | 'json'
+
+// Content blocks are typed by the Anthropic SDK; only the fields rendered here are relied on
+type ContentBlock = {
+    type: string
+    text?: string
+    thinking?: string
+    name?: string
+    input?: unknown
+    content?: unknown
+    is_error?: boolean
+}
+
+/**
+ * Render a transcript from `CastariClient.getTranscript()` (or `GET /transcript`) for
+ * auditing. `json` keeps every entry verbatim; `markdown` shows the conversation, tool calls,
+ * file operations, permission decisions and errors, and leaves out protocol chatter.
+ */
+export function exportTranscript(
+    entries: TranscriptEntry[],
+    format: TranscriptExportFormat = 'markdown',
+): string {
+    if (format === 'json') {
+        return JSON.stringify(entries, null, 2)
+    }
+
+    const sections = entries
+        .map(entry => {
+            const body =
+                entry.direction === 'in'
+                    ? renderInput(entry.message as WSInputMessage)
+                    : renderOutput(entry.message as WSOutputMessage)
+            return body ? `### ${new Date(entry.at).toISOString()}\n\n${body}` : null
+        })
+        .filter(section => section !== null)
+
+    const header = ['# Castari transcript']
+    if (entries.length > 0) {
+        const first = new Date(entries[0]!.at).toISOString()
+        const last = new Date(entries[entries.length - 1]!.at).toISOString()
+        header.push(`_${entries.length} messages, ${first} to ${last}_`)
+    }
+    return `${[...header, ...sections].join('\n\n')}\n`
+}
+
+function renderInput(message: WSInputMessage): string | null {
+    switch (message.type) {
+        case 'user_message':
+            return `**User**\n\n${renderContent(message.data.message.content)}`
+        case 'interrupt':
+            return '**Client** interrupted the agent'
+        case 'create_file':
+            return `**Client** wrote \`${message.path}\``
+        case 'delete_file':
+            return `**Client** deleted \`${message.path}\``
+        case 'upload_begin':
+            return `**Client** started uploading \`${message.path}\``
+        case 'permission_response': {
+            const { decision, requestId } = message
+            return decision.behavior === 'allow'
+                ? `**Client** allowed permission request \`${requestId}\``
+                : `**Client** denied permission request \`${requestId}\`${decision.message ? `: ${decision.message}` : ''}`
+        }
+        default:
+            return null
+    }
+}
+
+function renderOutput(message: WSOutputMessage): string | null {
+    switch (message.type) {
+        case 'sdk_message':
+            return renderSdkMessage(message.data)
+        case 'permission_request':
+            return `**Permission requested** for \`${message.toolName}\` (\`${message.requestId}\`)\n\n${codeBlock(message.input)}`
+        case 'error':
+            return `**Error:** ${message.error}`
+        case 'transfer_complete':
+            return `**Transfer complete:** ${message.direction} of \`${message.path}\` (${message.totalBytes} bytes)`
+        default:
+            return null
+    }
+}
+
+function renderSdkMessage(message: SDKMessage): string | null {
+    switch (message.type) {
+        case 'assistant':
+            return `**Assistant**\n\n${renderContent(message.message.content)}`
+        case 'user':
+            // Tool results the SDK feeds back to the model
+            return renderContent(message.message.content) || null
+        case 'result': {
+            const summary = `${message.num_turns} turns, $${message.total_cost_usd.toFixed(4)}`
+            return message.subtype === 'success'
+                ? `**Result** (${summary})\n\n${message.result}`
+                : `**Result: ${message.subtype}** (${summary})`
+        }
+        case 'system':
+            return message.subtype === 'init'
+                ? `**Session started** with model \`${message.model}\` in \`${message.cwd}\``
+                : null
+        default:
+            return null
+    }
+}
+
+function renderContent(content: unknown): string {
+    if (typeof content === 'string') return content
+    if (!Array.isArray(content)) return ''
+    return (content as ContentBlock[])
+        .map(block => {
+            switch (block.type) {
+                case 'text':
+                    return block.text ?? ''
+                case 'thinking':
+                    return `> ${(block.thinking ?? '').split('\n').join('\n> ')}`
+                case 'tool_use':
+                    return `**Tool use:** \`${block.name}\`\n\n${codeBlock(block.input)}`
+                case 'tool_result':
+                    return `**Tool result${block.is_error ? ' (error)' : ''}:**\n\n${codeBlock(
+                        typeof block.content === 'string'
+                            ? block.content
+                            : renderContent(block.content),
+                    )}`
+                default:
+                    return `_[${block.type}]_`
+            }
+        })
+        .filter(Boolean)
+        .join('\n\n')
+}
+
+function codeBlock(value: unknown): string {
+    const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+    // Use a fence longer than any backtick run inside the text
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length))
+    const fence = '`'.repeat(longest + 1)
+    return `${fence}${typeof value === 'string' ? '' : 'json'}\n${text}\n${fence}`
+}
@@ -0,0 +1,128 @@
+import { appendFile, mkdir, readFile, rename, rm, stat } from 'fs/promises'
+import { join } from 'path'
+
+import { redactConfig } from './config-validation'
+import { TRANSCRIPT_MAX_FILES } from './const'
+import { type Logger } from './logger'
+import { type TranscriptEntry, type WSInputMessage, type WSOutputMessage } from './types'
+
+export type TranscriptOptions = {
+    /** Directory holding the transcripts. Defaults to `<workspace>/.castari/transcripts`. */
+    directory?: string
+    /** Rotate a transcript once it grows past this many bytes. Unlimited by default. */
+    maxBytes?: number
+    /** Rotated files kept per session, beyond the current one. Defaults to 5. */
+    maxFiles?: number
+}
+
+export type Transcript = {
+    record: (direction: TranscriptEntry['direction'], message: WSInputMessage | WSOutputMessage) => void
+    /** Wait for every recorded entry to reach the disk */
+    flush: () => Promise<void>
+}
+
+// Session IDs are UUIDs; anything else must not be turned into a path
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/i
+
+// Bulk transfer data is resumable on its own and would dwarf the rest of the transcript
+const UNRECORDED_TYPES = new Set(['upload_chunk', 'download_chunk', 'download_ack', 'transcript'])
+
+function transcriptPath(directory: string, sessionId: string, generation = 0) {
+    return join(directory, generation === 0 ? `${sessionId}.jsonl` : `${sessionId}.${generation}.jsonl`)
+}
+
+/**
+ * Appends a session's inbound and outbound WebSocket messages to `<sessionId>.jsonl`.
+ * Writes are serialized in the background so recording never blocks message delivery.
+ * With `maxBytes`, a full file is shifted to `<sessionId>.1.jsonl` (and older ones up).
+ */
+export function createTranscript(
+    sessionId: string,
+    options: TranscriptOptions & { directory: string },
+    logger: Logger,
+): Transcript {
+    const { directory, maxBytes, maxFiles = TRANSCRIPT_MAX_FILES } = options
+    const path = transcriptPath(directory, sessionId)
+    let size: number | null = null
+    let tail: Promise<void> = mkdir(directory, { recursive: true }).then(() => {})
+
+    const rotate = async () => {
+        await rm(transcriptPath(directory, sessionId, maxFiles), { force: true })
+        for (let generation = maxFiles - 1; generation >= 0; generation--) {
+            await rename(
+                transcriptPath(directory, sessionId, generation),
+                transcriptPath(directory, sessionId, generation + 1),
+            ).catch(() => {})
+        }
+        size = 0
+    }
+
+    const write = async (line: string) => {
+        if (size === null) {
+            size = await stat(path).then(stats => stats.size, () => 0)
+        }
+        const bytes = Buffer.byteLength(line)
+        if (maxBytes && size > 0 && size + bytes > maxBytes) {
+            await rotate()
+        }
+        await appendFile(path, line)
+        size += bytes
+    }
+
+    return {
+        record(direction, message) {
+            if (UNRECORDED_TYPES.has(message.type)) return
+            // Config changes can carry the API key, which must never reach the disk
+            const recorded =
+                message.type === 'update_config'
+                    ? { ...message, config: redactConfig(message.config) }
+                    : message
+            const entry: TranscriptEntry = { at: Date.now(), direction, message: recorded }
+            const line = `${JSON.stringify(entry)}\n`
+            tail = tail
+                .then(() => write(line))
+                .catch(error => {
+                    logger.error('Failed to write transcript', { sessionId, error })
+                })
+        },
+
+        flush: () => tail,
+    }
+}
+
+/**
+ * Read a session's transcript, oldest entry first, including rotated files. Works after the
+ * session has closed. Returns null when there is no transcript for the session.
+ */
+export async function readTranscript(
+    directory: string,
+    sessionId: string,
+    options: { since?: number; maxFiles?: number } = {},
+): Promise<TranscriptEntry[] | null> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) return null
+    const { since, maxFiles = TRANSCRIPT_MAX_FILES } = options
+
+    const entries: TranscriptEntry[] = []
+    let found = false
+    for (let generation = maxFiles; generation >= 0; generation--) {
+        let content: string
+        try {
+            content = await readFile(transcriptPath(directory, sessionId, generation), 'utf-8')
+        } catch {
+            continue
+        }
+        found = true
+        for (const line of content.split('\n')) {
+            if (!line) continue
+            try {
+                const entry = JSON.parse(line) as TranscriptEntry
+                if (since === undefined || entry.at >= since) {
+                    entries.push(entry)
+                }
+            } catch {
+                // A line cut short by a crash; skip it
+            }
+        }
+    }
+    return found ? entries : null
+}
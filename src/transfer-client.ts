@@ -0,0 +1,290 @@
+import { toBase64, fromBase64 } from './base64'
+import { TRANSFER_CHUNK_SIZE, TRANSFER_WINDOW } from './const'
+import { CastariTransferError } from './errors'
+import type { TransferProgress, WSInputMessage, WSOutputMessage } from './types'
+
+/** Messages routed to one transfer, plus a synthetic event when the socket closes */
+export type TransferEvent = WSOutputMessage | { type: 'disconnected' }
+
+/** The slice of `CastariClient` the transfer helpers need */
+export type TransferChannel = {
+    send: (message: WSInputMessage) => void
+    /** Receive the messages carrying `transferId` (errors carry it as `requestId`) */
+    subscribe: (transferId: string, handler: (event: TransferEvent) => void) => () => void
+}
+
+export type UploadOptions = {
+    /** Continue a partial upload of the same path left by an earlier, interrupted upload */
+    resume?: boolean
+    /** Total size in bytes; the server rejects the upload if a different amount arrives */
+    totalBytes?: number
+    chunkSize?: number
+    onProgress?: (progress: TransferProgress) => void
+    /** Milliseconds to wait for any reply from the server. Defaults to 30s. */
+    timeoutMs?: number
+}
+
+export type DownloadOptions = {
+    /** Byte offset to start from, e.g. to resume an interrupted download */
+    offset?: number
+    chunkSize?: number
+    onProgress?: (progress: TransferProgress) => void
+}
+
+export type TransferResult = {
+    path: string
+    totalBytes: number
+}
+
+async function sha256Hex(bytes: Uint8Array) {
+    const digest = await crypto.subtle.digest('SHA-256', bytes)
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function transferError(event: TransferEvent, transferId: string, path: string) {
+    if (event.type === 'disconnected') {
+        return new CastariTransferError('Connection closed during transfer', {
+            code: 'disconnected',
+            transferId,
+            path,
+        })
+    }
+    if (event.type === 'error') {
+        return new CastariTransferError(event.error, {
+            code: event.code ?? 'operation_failed',
+            transferId,
+            path,
+        })
+    }
+    return null
+}
+
+/**
+ * Upload a stream in checksummed chunks, keeping a window of chunks in flight.
+ */
+export async function uploadStream(
+    channel: TransferChannel,
+    path: string,
+    stream: ReadableStream<Uint8Array>,
+    options: UploadOptions = {},
+): Promise<TransferResult> {
+    const transferId = crypto.randomUUID()
+    const chunkSize = options.chunkSize ?? TRANSFER_CHUNK_SIZE
+    const timeoutMs = options.timeoutMs ?? 30_000
+
+    let readyOffset: number | null = null
+    let acked = 0
+    let result: TransferResult | null = null
+    let failure: Error | null = null
+    let wake: (() => void) | null = null
+
+    const unsubscribe = channel.subscribe(transferId, event => {
+        failure ??= transferError(event, transferId, path)
+        if (event.type === 'transfer_ready') {
+            readyOffset = event.offset
+            acked = event.offset
+        } else if (event.type === 'transfer_progress') {
+            acked = event.bytesTransferred
+            options.onProgress?.(event)
+        } else if (event.type === 'transfer_complete') {
+            result = { path: event.path, totalBytes: event.totalBytes }
+        }
+        wake?.()
+    })
+
+    // Wait until `condition` holds, failing on a server error or a silent server
+    const until = async (condition: () => boolean) => {
+        while (!condition()) {
+            if (failure) throw failure
+            const woke = await new Promise<boolean>(resolve => {
+                const timer = setTimeout(() => resolve(false), timeoutMs)
+                wake = () => {
+                    clearTimeout(timer)
+                    resolve(true)
+                }
+            })
+            wake = null
+            if (!woke) {
+                throw new CastariTransferError(`Upload timed out after ${timeoutMs}ms`, {
+                    code: 'timeout',
+                    transferId,
+                    path,
+                })
+            }
+        }
+        if (failure) throw failure
+    }
+
+    const reader = stream.getReader()
+    try {
+        channel.send({
+            type: 'upload_begin',
+            transferId,
+            path,
+            totalBytes: options.totalBytes,
+            resume: options.resume,
+        })
+        await until(() => readyOffset !== null)
+
+        let skip = readyOffset ?? 0
+        let sentOffset = skip
+        let pending: Uint8Array[] = []
+        let pendingLength = 0
+
+        const sendChunk = async (bytes: Uint8Array) => {
+            await until(() => sentOffset - acked < TRANSFER_WINDOW * chunkSize)
+            channel.send({
+                type: 'upload_chunk',
+                transferId,
+                offset: sentOffset,
+                data: toBase64(bytes),
+                checksum: await sha256Hex(bytes),
+            })
+            sentOffset += bytes.length
+        }
+
+        const takePending = (length: number) => {
+            const chunk = new Uint8Array(length)
+            let filled = 0
+            while (filled < length) {
+                const head = pending[0]
+                const count = Math.min(head.length, length - filled)
+                chunk.set(head.subarray(0, count), filled)
+                filled += count
+                if (count === head.length) pending.shift()
+                else pending[0] = head.subarray(count)
+            }
+            pendingLength -= length
+            return chunk
+        }
+
+        while (true) {
+            const { done, value } = await reader.read()
+            if (done) break
+            let bytes = value
+            // Bytes the server already holds from an earlier attempt
+            if (skip > 0) {
+                const skipped = Math.min(skip, bytes.length)
+                skip -= skipped
+                bytes = bytes.subarray(skipped)
+            }
+            if (bytes.length === 0) continue
+            pending.push(bytes)
+            pendingLength += bytes.length
+            while (pendingLength >= chunkSize) {
+                await sendChunk(takePending(chunkSize))
+            }
+        }
+        if (pendingLength > 0) {
+            await sendChunk(takePending(pendingLength))
+        }
+
+        await until(() => acked >= sentOffset)
+        channel.send({ type: 'upload_end', transferId })
+        await until(() => result !== null)
+        return result!
+    } catch (err) {
+        void reader.cancel().catch(() => {})
+        try {
+            channel.send({ type: 'transfer_cancel', transferId })
+        } catch {
+            // Not connected; the server drops the transfer with the session
+        }
+        throw err
+    } finally {
+        unsubscribe()
+    }
+}
+
+/**
+ * Download a file as a stream of verified chunks. Acknowledgements are held back while the
+ * consumer is behind, so the server never runs more than a window ahead of the reader.
+ */
+export function downloadStream(
+    channel: TransferChannel,
+    path: string,
+    options: DownloadOptions = {},
+): ReadableStream<Uint8Array> {
+    const transferId = crypto.randomUUID()
+    let unsubscribe = () => {}
+    let pendingAck: number | null = null
+    let finished = false
+
+    const sendAck = (offset: number) => {
+        try {
+            channel.send({ type: 'download_ack', transferId, offset })
+        } catch {
+            // The disconnect is reported through the transfer's `disconnected` event
+        }
+    }
+
+    return new ReadableStream<Uint8Array>(
+        {
+            start(controller) {
+                // Checksums are verified asynchronously, so events are processed in order on a chain
+                let tail = Promise.resolve()
+                unsubscribe = channel.subscribe(transferId, event => {
+                    tail = tail.then(async () => {
+                        if (finished) return
+                        const failure = transferError(event, transferId, path)
+                        if (failure) {
+                            finished = true
+                            unsubscribe()
+                            controller.error(failure)
+                        } else if (event.type === 'download_chunk') {
+                            const bytes = fromBase64(event.data)
+                            if ((await sha256Hex(bytes)) !== event.checksum) {
+                                finished = true
+                                unsubscribe()
+                                channel.send({ type: 'transfer_cancel', transferId })
+                                controller.error(
+                                    new CastariTransferError(
+                                        `Checksum mismatch for chunk at offset ${event.offset}`,
+                                        { code: 'transfer_checksum_mismatch', transferId, path },
+                                    ),
+                                )
+                                return
+                            }
+                            controller.enqueue(bytes)
+                            const received = event.offset + bytes.length
+                            if ((controller.desiredSize ?? 0) > 0) {
+                                sendAck(received)
+                            } else {
+                                pendingAck = received
+                            }
+                        } else if (event.type === 'transfer_progress') {
+                            options.onProgress?.(event)
+                        } else if (event.type === 'transfer_complete') {
+                            finished = true
+                            unsubscribe()
+                            controller.close()
+                        }
+                    })
+                })
+                channel.send({
+                    type: 'download_begin',
+                    transferId,
+                    path,
+                    offset: options.offset,
+                    chunkSize: options.chunkSize,
+                })
+            },
+            pull() {
+                if (pendingAck !== null) {
+                    sendAck(pendingAck)
+                    pendingAck = null
+                }
+            },
+            cancel() {
+                finished = true
+                unsubscribe()
+                try {
+                    channel.send({ type: 'transfer_cancel', transferId })
+                } catch {
+                    // Not connected; nothing to cancel on the server
+                }
+            },
+        },
+        new CountQueuingStrategy({ highWaterMark: TRANSFER_WINDOW }),
+    )
+}
@@ -0,0 +1,332 @@
+import { createHash } from 'crypto'
+import { constants } from 'fs'
+import { mkdir, open, rename, stat, type FileHandle } from 'fs/promises'
+import { dirname } from 'path'
+
+import {
+    TRANSFER_CHUNK_SIZE,
+    TRANSFER_PARTIAL_SUFFIX,
+    TRANSFER_WINDOW,
+} from './const'
+import { WorkspacePathError, type TransferErrorCode } from './errors'
+import { type PathPolicy } from './path-policy'
+import { type WSInputMessage, type WSOutputMessage } from './types'
+
+export type TransferMessage = Extract<
+    WSInputMessage,
+    {
+        type:
+            | 'upload_begin'
+            | 'upload_chunk'
+            | 'upload_end'
+            | 'download_begin'
+            | 'download_ack'
+            | 'transfer_cancel'
+    }
+>
+
+export type TransferManager = {
+    handle: (input: TransferMessage) => Promise<void>
+    /** Close every open transfer; partial uploads stay on disk so they can be resumed */
+    cancelAll: () => Promise<void>
+}
+
+type UploadState = {
+    direction: 'upload'
+    path: string
+    targetPath: string
+    partialPath: string
+    handle: FileHandle
+    received: number
+    totalBytes?: number
+    // Chunks are applied strictly in order even though messages are handled concurrently
+    tail: Promise<void>
+}
+
+type DownloadState = {
+    direction: 'download'
+    path: string
+    handle: FileHandle
+    totalBytes: number
+    chunkSize: number
+    sentOffset: number
+    ackedOffset: number
+    pumping: boolean
+}
+
+type TransferState = UploadState | DownloadState
+
+class TransferFailure extends Error {
+    constructor(
+        readonly code: TransferErrorCode,
+        message: string,
+    ) {
+        super(message)
+    }
+}
+
+export function isTransferMessage(input: WSInputMessage): input is TransferMessage {
+    return (
+        input.type === 'upload_begin' ||
+        input.type === 'upload_chunk' ||
+        input.type === 'upload_end' ||
+        input.type === 'download_begin' ||
+        input.type === 'download_ack' ||
+        input.type === 'transfer_cancel'
+    )
+}
+
+function sha256(bytes: Uint8Array) {
+    return createHash('sha256').update(bytes).digest('hex')
+}
+
+/**
+ * Chunked, resumable uploads and downloads for one session. Transfer messages are sent
+ * through `send`, which should bypass the replay buffer: an interrupted transfer is resumed
+ * by offset rather than replayed.
+ */
+export function createTransferManager(options: {
+    send: (message: WSOutputMessage) => void
+    pathPolicy: PathPolicy
+}): TransferManager {
+    const { send, pathPolicy } = options
+    const transfers = new Map<string, TransferState>()
+
+    const fail = (transferId: string, err: unknown) => {
+        const state = transfers.get(transferId)
+        if (state) {
+            transfers.delete(transferId)
+            void state.handle.close().catch(() => {})
+        }
+        if (err instanceof WorkspacePathError || err instanceof TransferFailure) {
+            send({ type: 'error', error: err.message, code: err.code, requestId: transferId })
+        } else {
+            send({
+                type: 'error',
+                error: `Transfer failed: ${err instanceof Error ? err.message : String(err)}`,
+                requestId: transferId,
+            })
+        }
+    }
+
+    const getState = <D extends TransferState['direction']>(transferId: string, direction: D) => {
+        const state = transfers.get(transferId)
+        if (!state || state.direction !== direction) {
+            throw new TransferFailure(
+                'transfer_not_found',
+                `No ${direction} in progress with ID ${transferId}`,
+            )
+        }
+        return state as Extract<TransferState, { direction: D }>
+    }
+
+    // Keep up to TRANSFER_WINDOW chunks in flight, then wait for download_ack
+    const pump = async (transferId: string, state: DownloadState) => {
+        if (state.pumping) return
+        state.pumping = true
+        try {
+            while (
+                transfers.get(transferId) === state &&
+                state.sentOffset < state.totalBytes &&
+                state.sentOffset - state.ackedOffset < TRANSFER_WINDOW * state.chunkSize
+            ) {
+                const length = Math.min(state.chunkSize, state.totalBytes - state.sentOffset)
+                const buffer = Buffer.alloc(length)
+                const { bytesRead } = await state.handle.read(buffer, 0, length, state.sentOffset)
+                const bytes = buffer.subarray(0, bytesRead)
+                send({
+                    type: 'download_chunk',
+                    transferId,
+                    offset: state.sentOffset,
+                    data: bytes.toString('base64'),
+                    checksum: sha256(bytes),
+                })
+                if (bytesRead === 0) {
+                    throw new Error('File shrank during download')
+                }
+                state.sentOffset += bytesRead
+            }
+        } finally {
+            state.pumping = false
+        }
+    }
+
+    const handleInput = async (input: TransferMessage) => {
+        const { transferId } = input
+
+        const begins = input.type === 'upload_begin' || input.type === 'download_begin'
+        if (begins && transfers.has(transferId)) {
+            // Failing the transfer also closes the one holding the ID, so no file handle leaks
+            throw new TransferFailure(
+                'transfer_in_progress',
+                `A transfer with ID ${transferId} is already in progress`,
+            )
+        }
+
+        if (input.type === 'upload_begin') {
+            const targetPath = await pathPolicy.resolve(input.path, 'write')
+            // The partial file is a path of its own, so it is checked too: it may be a symlink
+            const partialPath = await pathPolicy.resolve(
+                `${input.path}${TRANSFER_PARTIAL_SUFFIX}`,
+                'write',
+            )
+            await mkdir(dirname(partialPath), { recursive: true })
+            const existing = input.resume ? await stat(partialPath).catch(() => null) : null
+            // O_NOFOLLOW: a symlink swapped in after the check is refused rather than followed
+            const handle = await open(
+                partialPath,
+                existing
+                    ? constants.O_RDWR | constants.O_NOFOLLOW
+                    : constants.O_WRONLY | constants.O_CREAT | constants.O_TRUNC | constants.O_NOFOLLOW,
+            )
+            const state: UploadState = {
+                direction: 'upload',
+                path: input.path,
+                targetPath,
+                partialPath,
+                handle,
+                received: existing?.size ?? 0,
+                totalBytes: input.totalBytes,
+                tail: Promise.resolve(),
+            }
+            transfers.set(transferId, state)
+            send({
+                type: 'transfer_ready',
+                transferId,
+                direction: 'upload',
+                offset: state.received,
+                totalBytes: input.totalBytes,
+            })
+        } else if (input.type === 'upload_chunk') {
+            const state = getState(transferId, 'upload')
+            const run = state.tail.then(async () => {
+                const bytes = Buffer.from(input.data, 'base64')
+                if (input.offset !== state.received) {
+                    throw new TransferFailure(
+                        'transfer_offset_mismatch',
+                        `Expected chunk at offset ${state.received}, got ${input.offset}`,
+                    )
+                }
+                if (sha256(bytes) !== input.checksum) {
+                    throw new TransferFailure(
+                        'transfer_checksum_mismatch',
+                        `Checksum mismatch for chunk at offset ${input.offset}`,
+                    )
+                }
+                await state.handle.write(bytes, 0, bytes.length, input.offset)
+                state.received += bytes.length
+                send({
+                    type: 'transfer_progress',
+                    transferId,
+                    direction: 'upload',
+                    path: state.path,
+                    bytesTransferred: state.received,
+                    totalBytes: state.totalBytes,
+                })
+            })
+            state.tail = run.catch(() => {})
+            await run
+        } else if (input.type === 'upload_end') {
+            const state = getState(transferId, 'upload')
+            await state.tail
+            if (state.totalBytes !== undefined && state.received !== state.totalBytes) {
+                throw new TransferFailure(
+                    'transfer_size_mismatch',
+                    `Expected ${state.totalBytes} bytes, received ${state.received}`,
+                )
+            }
+            transfers.delete(transferId)
+            await state.handle.truncate(state.received)
+            await state.handle.close()
+            await rename(state.partialPath, state.targetPath)
+            send({
+                type: 'transfer_complete',
+                transferId,
+                direction: 'upload',
+                path: state.path,
+                totalBytes: state.received,
+            })
+        } else if (input.type === 'download_begin') {
+            const sourcePath = await pathPolicy.resolve(input.path, 'read')
+            const handle = await open(sourcePath, 'r')
+            const { size } = await handle.stat()
+            const offset = Math.min(Math.max(input.offset ?? 0, 0), size)
+            const state: DownloadState = {
+                direction: 'download',
+                path: input.path,
+                handle,
+                totalBytes: size,
+                chunkSize: Math.max(1, input.chunkSize ?? TRANSFER_CHUNK_SIZE),
+                sentOffset: offset,
+                ackedOffset: offset,
+                pumping: false,
+            }
+            transfers.set(transferId, state)
+            send({
+                type: 'transfer_ready',
+                transferId,
+                direction: 'download',
+                offset,
+                totalBytes: size,
+            })
+            if (offset === size) {
+                transfers.delete(transferId)
+                await handle.close()
+                send({
+                    type: 'transfer_complete',
+                    transferId,
+                    direction: 'download',
+                    path: state.path,
+                    totalBytes: size,
+                })
+                return
+            }
+            await pump(transferId, state)
+        } else if (input.type === 'download_ack') {
+            const state = getState(transferId, 'download')
+            state.ackedOffset = Math.max(state.ackedOffset, Math.min(input.offset, state.sentOffset))
+            send({
+                type: 'transfer_progress',
+                transferId,
+                direction: 'download',
+                path: state.path,
+                bytesTransferred: state.ackedOffset,
+                totalBytes: state.totalBytes,
+            })
+            if (state.ackedOffset >= state.totalBytes) {
+                transfers.delete(transferId)
+                await state.handle.close()
+                send({
+                    type: 'transfer_complete',
+                    transferId,
+                    direction: 'download',
+                    path: state.path,
+                    totalBytes: state.totalBytes,
+                })
+                return
+            }
+            await pump(transferId, state)
+        } else if (input.type === 'transfer_cancel') {
+            const state = transfers.get(transferId)
+            if (state) {
+                transfers.delete(transferId)
+                await state.handle.close().catch(() => {})
+            }
+        }
+    }
+
+    return {
+        async handle(input) {
+            try {
+                await handleInput(input)
+            } catch (err) {
+                fail(input.transferId, err)
+            }
+        },
+        async cancelAll() {
+            const states = [...transfers.values()]
+            transfers.clear()
+            await Promise.all(states.map(state => state.handle.close().catch(() => {})))
+        },
+    }
+}
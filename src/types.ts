@@ -1,43 +1,493 @@
 import {
     type AgentDefinition,
+    type PermissionMode,
     type SDKMessage,
     type SDKUserMessage,
 } from '@anthropic-ai/claude-agent-sdk'
 
+import type {
+    CheckpointErrorCode,
+    ConfigErrorCode,
+    ProtocolErrorCode,
+    QueueErrorCode,
+    TransferErrorCode,
+    WorkspacePathErrorCode,
+} from './errors'
+
+/** Machine-readable codes attached to `error` messages */
+export type WSErrorCode =
+    | WorkspacePathErrorCode
+    | TransferErrorCode
+    | QueueErrorCode
+    | ConfigErrorCode
+    | ProtocolErrorCode
+    | CheckpointErrorCode
+
 // WebSocket message types
 export type WSInputMessage =
     | {
         type: 'user_message'
         data: SDKUserMessage
+        /** Client-chosen ID used in queue events; the server assigns one when omitted */
+        messageId?: string
     }
     | { type: 'interrupt' }
+    | { type: 'list_queue'; requestId?: string }
+    /** Take back a message that is still queued */
+    | { type: 'cancel_message'; messageId: string; requestId?: string }
+    | { type: 'clear_queue'; requestId?: string }
+    // Mid-session config changes, each confirmed with `config_updated`
+    | { type: 'set_model'; model?: string; requestId?: string }
+    | { type: 'set_permission_mode'; mode: PermissionMode; requestId?: string }
+    | { type: 'update_config'; config: QueryConfigUpdate; requestId?: string }
     | {
         type: 'create_file'
         path: string
         content: string
         encoding?: 'utf-8' | 'base64'
+        /** Optional correlation ID echoed back on the matching `file_result`/`error` */
+        requestId?: string
+    }
+    | {
+        type: 'read_file'
+        path: string
+        encoding?: 'utf-8' | 'base64'
+        requestId?: string
     }
-    | { type: 'read_file'; path: string; encoding?: 'utf-8' | 'base64' }
-    | { type: 'delete_file'; path: string }
-    | { type: 'list_files'; path?: string }
+    | { type: 'delete_file'; path: string; requestId?: string }
+    | ({ type: 'list_files'; path?: string; requestId?: string } & ListFilesOptions)
+    | {
+        type: 'permission_response'
+        requestId: string
+        decision: PermissionDecision
+    }
+    /** The client's answer to a `tool_call` */
+    | ({ type: 'tool_result'; callId: string } & ClientToolResult)
+    // Chunked transfers. Errors for a transfer carry its `transferId` as `requestId`.
+    | {
+        type: 'upload_begin'
+        transferId: string
+        path: string
+        /** Total size in bytes, checked on `upload_end` when given */
+        totalBytes?: number
+        /** Continue a previous partial upload of the same path instead of starting over */
+        resume?: boolean
+    }
+    | {
+        type: 'upload_chunk'
+        transferId: string
+        offset: number
+        /** Base64-encoded chunk bytes */
+        data: string
+        /** Hex SHA-256 of the decoded chunk bytes */
+        checksum: string
+    }
+    | { type: 'upload_end'; transferId: string }
+    | {
+        type: 'download_begin'
+        transferId: string
+        path: string
+        /** Byte offset to start from, e.g. to resume an interrupted download */
+        offset?: number
+        chunkSize?: number
+    }
+    | {
+        type: 'download_ack'
+        transferId: string
+        /** The offset up to which chunks have been received */
+        offset: number
+    }
+    | { type: 'transfer_cancel'; transferId: string }
+    | ({
+        type: 'watch_files'
+        /** Client-chosen ID used to unsubscribe; errors carry it as `requestId` */
+        subscriptionId: string
+        /** Directory to watch, relative to the workspace. Defaults to the workspace root. */
+        path?: string
+    } & WatchFilesOptions)
+    | { type: 'unwatch_files'; subscriptionId: string }
+    | { type: 'get_status'; requestId?: string }
+    | {
+        type: 'get_transcript'
+        /** Only return entries recorded at or after this time, in milliseconds since the epoch */
+        since?: number
+        requestId?: string
+    }
+    // Workspace checkpoints, taken at the start of every turn
+    | { type: 'list_checkpoints'; requestId?: string }
+    | {
+        type: 'diff_checkpoint'
+        checkpointId: string
+        /** Only diff these workspace paths (files or directories) */
+        paths?: string[]
+        requestId?: string
+    }
+    | { type: 'restore_checkpoint'; checkpointId: string; requestId?: string }
 
-export type WSOutputMessage =
-    | { type: 'connected' }
+export type WSOutputMessage = (
+    | {
+        type: 'connected'
+        /** The protocol version the server speaks; see `PROTOCOL_VERSION` */
+        protocolVersion: number
+        /** Optional protocol features the server supports, e.g. `'client_tools'` */
+        capabilities: string[]
+        /** Present when the client reconnected with `lastSeq`; describes the messages replayed next */
+        replay?: {
+            fromSeq: number
+            count: number
+            /** Messages after `fromSeq` that had already left the server's replay buffer */
+            dropped: number
+        }
+    }
     | { type: 'sdk_message'; data: SDKMessage }
-    | { type: 'error'; error: string }
+    | {
+        type: 'message_queued'
+        messageId: string
+        /** 1-based position in the queue; 1 means next in line */
+        position: number
+    }
+    /** The agent has taken the message and started its turn */
+    | { type: 'message_started'; messageId: string }
+    | { type: 'queue'; messages: QueuedMessageSummary[]; requestId?: string }
+    | {
+        type: 'config_updated'
+        /** The session's config after the change, with secrets redacted */
+        config: QueryConfig
+        /**
+         * `live` when the running agent stream took the change; `restart` when the stream was
+         * restarted (after the current turn) resuming the same conversation
+         */
+        applied: 'live' | 'restart'
+        requestId?: string
+    }
+    /** Answer to `cancel_message` and `clear_queue` */
+    | { type: 'messages_cancelled'; messageIds: string[]; requestId?: string }
+    | {
+        type: 'error'
+        error: string
+        code?: WSErrorCode
+        /** Set when the error answers a request that carried a `requestId` */
+        requestId?: string
+    }
     | { type: 'info'; data: string }
+    | ({ type: 'permission_request' } & PermissionRequest)
+    /** The agent called one of the client's tools; answer with `tool_result` */
+    | { type: 'tool_call'; callId: string; name: string; input: Record<string, unknown> }
     | {
         type: 'file_result'
         operation: 'create_file' | 'delete_file'
         result: 'success'
+        requestId?: string
     }
     | {
         type: 'file_result'
         operation: 'read_file'
         result: string
         encoding: 'utf-8' | 'base64'
+        requestId?: string
+    }
+    | {
+        type: 'file_result'
+        operation: 'list_files'
+        /** Entry paths relative to the listed directory */
+        result: string[]
+        entries: FileEntry[]
+        /** Pass as `cursor` to fetch the next page; absent on the last page */
+        nextCursor?: string
+        requestId?: string
+    }
+    | {
+        type: 'transfer_ready'
+        transferId: string
+        direction: TransferDirection
+        /** Upload: bytes the server already holds. Download: the offset chunks start from. */
+        offset: number
+        totalBytes?: number
+    }
+    | {
+        type: 'download_chunk'
+        transferId: string
+        offset: number
+        data: string
+        checksum: string
+    }
+    | ({ type: 'transfer_progress' } & TransferProgress)
+    | { type: 'watch_started'; subscriptionId: string }
+    | { type: 'file_changed'; subscriptionId: string; changes: FileChange[] }
+    /**
+     * A watch ended: the answer to `unwatch_files`, or, with `error`, the server stopped it on
+     * its own, e.g. the directory was deleted or watches ran out
+     */
+    | { type: 'watch_stopped'; subscriptionId: string; error?: string }
+    | {
+        type: 'transfer_complete'
+        transferId: string
+        direction: TransferDirection
+        path: string
+        totalBytes: number
+    }
+    | ({ type: 'status'; requestId?: string } & StatusSnapshot)
+    | { type: 'transcript'; entries: TranscriptEntry[]; requestId?: string }
+    /** A checkpoint was taken before the agent started on a message */
+    | { type: 'checkpoint_created'; checkpoint: Checkpoint }
+    | { type: 'checkpoints'; checkpoints: Checkpoint[]; requestId?: string }
+    | {
+        type: 'checkpoint_diff'
+        checkpointId: string
+        /** Changes from the checkpoint to the current workspace */
+        files: CheckpointFileDiff[]
+        requestId?: string
+    }
+    | {
+        type: 'checkpoint_restored'
+        checkpointId: string
+        /** Checkpoint of the workspace as it was just before the restore */
+        backupCheckpointId: string
+        requestId?: string
+    }
+    | {
+        type: 'shutting_down'
+        reason: string
+        /** Whether in-flight operations are being allowed to finish */
+        graceful: boolean
+        /** How long the server waits for them before closing the socket with code 1001 */
+        timeoutMs?: number
     }
-    | { type: 'file_result'; operation: 'list_files'; result: string[] }
+) & {
+    /** Server-assigned sequence number, used to replay missed messages after a reconnect */
+    seq?: number
+}
+
+/** A user message waiting for the agent */
+export type QueuedMessageSummary = {
+    messageId: string
+    position: number
+    queuedAt: number
+    /** The start of the message text */
+    preview: string
+}
+
+/** A tool use the server asks the client to approve */
+export type PermissionRequest = {
+    requestId: string
+    toolName: string
+    input: Record<string, unknown>
+    toolUseId: string
+    /** The path that triggered the request, if any (e.g. a write outside allowed directories) */
+    blockedPath?: string
+    decisionReason?: string
+}
+
+/**
+ * JSON Schema describing a client tool's input. Supports `type` (including type arrays),
+ * `properties`, `required`, `additionalProperties: false`, `items`, `enum`, `const`,
+ * `anyOf`/`oneOf` and `description`; other keywords are ignored.
+ */
+export type JSONSchema = {
+    type?: JSONSchemaType | JSONSchemaType[]
+    description?: string
+    properties?: Record<string, JSONSchema>
+    required?: string[]
+    additionalProperties?: boolean
+    items?: JSONSchema
+    enum?: unknown[]
+    const?: unknown
+    anyOf?: JSONSchema[]
+    oneOf?: JSONSchema[]
+}
+
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'
+
+/** A tool declared by the client and run in the client process; sent in `/config` */
+export type ClientToolDefinition = {
+    name: string
+    description: string
+    /** An object schema for the tool's input */
+    inputSchema: JSONSchema
+}
+
+/** What a client tool returns to the agent */
+export type ClientToolResult = {
+    content: (
+        | { type: 'text'; text: string }
+        | { type: 'image'; data: string; mimeType: string }
+    )[]
+    isError?: boolean
+}
+
+/** The client's answer to a `permission_request` */
+export type PermissionDecision =
+    | {
+        behavior: 'allow'
+        /** Replacement tool input; the original input is used when omitted */
+        updatedInput?: Record<string, unknown>
+    }
+    | {
+        behavior: 'deny'
+        /** Shown to the agent as the reason for the denial */
+        message?: string
+        /** Stop the current turn instead of letting the agent continue */
+        interrupt?: boolean
+    }
+
+export type TransferDirection = 'upload' | 'download'
+
+export type TransferProgress = {
+    transferId: string
+    direction: TransferDirection
+    path: string
+    bytesTransferred: number
+    totalBytes?: number
+}
+
+export type ListFilesOptions = {
+    /** Descend into subdirectories */
+    recursive?: boolean
+    /** Levels to descend when `recursive` is set (1 = direct children only) */
+    maxDepth?: number
+    /** Only return entries matching one of these globs (directories are still traversed) */
+    include?: string[]
+    /** Skip entries, and whole directories, matching one of these globs */
+    exclude?: string[]
+    /** Skip files ignored by `.gitignore` files (and the `.git` directory) */
+    respectGitignore?: boolean
+    /** Maximum entries per page */
+    limit?: number
+    /** `nextCursor` from the previous page */
+    cursor?: string
+}
+
+export type FileEntry = {
+    /** Path relative to the listed directory, using `/` separators */
+    path: string
+    type: 'file' | 'directory' | 'symlink' | 'other'
+    size: number
+    /** Last modification time, in milliseconds since the epoch */
+    mtime: number
+    /** File mode bits, as returned by `stat` */
+    mode: number
+}
+
+export type WatchFilesOptions = {
+    /** Only report paths matching one of these globs */
+    include?: string[]
+    /** Ignore paths matching one of these globs */
+    exclude?: string[]
+    /** Quiet period before a batch of changes is sent. Defaults to 100ms. */
+    debounceMs?: number
+}
+
+export type FileChange = {
+    kind: 'created' | 'modified' | 'deleted'
+    /** Path relative to the watched directory, using `/` separators */
+    path: string
+    type?: FileEntry['type']
+    /** Size after the change (absent for deletions) */
+    size?: number
+}
+
+/** Token, cost and turn counts summed over a session's SDK `result` messages */
+export type UsageTotals = {
+    inputTokens: number
+    outputTokens: number
+    cacheCreationInputTokens: number
+    cacheReadInputTokens: number
+    totalCostUsd: number
+    numTurns: number
+    /** Number of `result` messages counted */
+    results: number
+}
+
+export type SessionStatus = {
+    sessionId: string
+    /** Whether a client WebSocket is currently attached */
+    connected: boolean
+    /** User messages waiting to be handed to the agent */
+    queueDepth: number
+    /** Whether the session's agent stream is running; it stays open between turns */
+    streamActive: boolean
+    /** Whether the agent is working on a user message */
+    busy: boolean
+    /** ID of the message the agent is working on, or null when it is idle */
+    currentMessageId: string | null
+    /** When the session was created, in milliseconds since the epoch */
+    createdAt: number
+    /** The most recent stream failure or error result, if any */
+    lastError: { message: string; at: number } | null
+    usage: UsageTotals
+}
+
+/** Answer to `get_status` and `GET /status?sessionId=` */
+export type StatusSnapshot = {
+    /** Milliseconds since the server started */
+    uptimeMs: number
+    session: SessionStatus
+}
+
+/** A snapshot of the session's workspace */
+export type Checkpoint = {
+    checkpointId: string
+    /** `turn` for the snapshot taken before a message; `restore` for the one taken before a restore */
+    reason: 'turn' | 'restore'
+    /** The message whose turn started from this checkpoint */
+    messageId?: string
+    /** The start of that message's text */
+    preview?: string
+    /** For `restore` checkpoints, the checkpoint that was restored */
+    restoredFrom?: string
+    /** In milliseconds since the epoch */
+    createdAt: number
+}
+
+/** How one file differs between a checkpoint and the current workspace */
+export type CheckpointFileDiff = {
+    /** Path relative to the workspace, using `/` separators */
+    path: string
+    /** `skipped` for nested git repositories, which are never checkpointed or restored */
+    status: 'added' | 'modified' | 'deleted' | 'skipped'
+    /**
+     * Unified diff from the checkpoint to the current file (`Binary files differ` for
+     * binaries); empty when skipped
+     */
+    patch: string
+}
+
+/** One line of a session transcript */
+export type TranscriptEntry = {
+    /** When the message was sent or received, in milliseconds since the epoch */
+    at: number
+    /** `in` for client-to-server messages, `out` for server-to-client messages */
+    direction: 'in' | 'out'
+    message: WSInputMessage | WSOutputMessage
+}
+
+export type FileOperation =
+    | 'create_file'
+    | 'read_file'
+    | 'delete_file'
+    | 'list_files'
+
+/**
+ * Everything a client needs to join a session, minted server-side by `createSession()` so
+ * API keys never reach the client (e.g. a browser)
+ */
+export type SessionTicket = {
+    sessionId: string
+    wsUrl: string
+    /** Single-use token for the first WebSocket connection */
+    connectionToken: string
+    /** When `connectionToken` expires, in milliseconds since the epoch */
+    expiresAt?: number
+    /** Query params for the WebSocket URL, e.g. sandbox proxy auth */
+    authParams?: Record<string, string>
+    /** Headers for `/reconnect` requests when connecting to the sandbox directly */
+    authHeaders?: Record<string, string>
+    /** Endpoint and secret that mint new connection tokens after a disconnect */
+    reconnectUrl?: string
+    reconnectToken?: string
+    /** The platform sandbox hosting the session, when one was started */
+    sandboxId?: string
+}
 
 // Configuration type for the query options
 export type QueryConfig = {
@@ -51,6 +501,12 @@ export type QueryConfig = {
         append?: string
     }
     model?: string
+    permissionMode?: PermissionMode
+    /** Tools run by the client; the agent calls them through `tool_call` messages */
+    clientTools?: ClientToolDefinition[]
     anthropicApiKey?: string
     resume?: string  // Session ID to resume
 }
+
+/** Config fields that `update_config` may change mid-session */
+export type QueryConfigUpdate = Omit<QueryConfig, 'resume'>
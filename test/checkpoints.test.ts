@@ -0,0 +1,102 @@
+import { expect, test } from 'bun:test'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+
+import { createTestAgent, type TestAgent } from '../src/testing'
+import { type Checkpoint } from '../src/types'
+
+function collectCheckpoints(agent: TestAgent) {
+    const created: Checkpoint[] = []
+    agent.client.onMessage(message => {
+        if (message.type === 'checkpoint_created') created.push(message.checkpoint)
+    })
+    return created
+}
+
+test('diffs and restores the workspace as it was before a turn', async () => {
+    const agent = await createTestAgent({ script: [[{ text: 'Done' }]] })
+    try {
+        const created = collectCheckpoints(agent)
+        await agent.client.writeFile('a.txt', 'one\n')
+        await agent.client.query('Edit the files').result()
+        expect(created).toHaveLength(1)
+        expect(created[0]).toMatchObject({ reason: 'turn', preview: 'Edit the files' })
+
+        await agent.client.writeFile('a.txt', 'two\n')
+        await agent.client.writeFile('b.txt', 'new\n')
+        const diff = await agent.client.diffCheckpoint(created[0].checkpointId)
+        expect(diff.map(file => [file.path, file.status])).toEqual([
+            ['a.txt', 'modified'],
+            ['b.txt', 'added'],
+        ])
+        expect(diff[0].patch).toContain('-one\n+two')
+
+        const { backupCheckpointId } = await agent.client.restoreCheckpoint(created[0].checkpointId)
+        expect(await agent.client.readFile('a.txt')).toBe('one\n')
+        await expect(agent.client.readFile('b.txt')).rejects.toThrow()
+
+        const [latest] = await agent.client.listCheckpoints()
+        expect(latest).toMatchObject({ checkpointId: backupCheckpointId, reason: 'restore' })
+        await agent.client.restoreCheckpoint(backupCheckpointId)
+        expect(await agent.client.readFile('b.txt')).toBe('new\n')
+
+        const missing = await agent.client.diffCheckpoint('0000000').catch(err => err)
+        expect(missing.code).toBe('checkpoint_not_found')
+    } finally {
+        await agent.stop()
+    }
+})
+
+test('leaves read-only and denied paths alone', async () => {
+    const agent = await createTestAgent({
+        readOnlyPaths: ['locked/**'],
+        deniedPaths: ['.env'],
+        script: [[{ text: 'Done' }]],
+    })
+    try {
+        const created = collectCheckpoints(agent)
+        const workspace = agent.workspaceDirectory
+        await mkdir(join(workspace, 'locked'))
+        await writeFile(join(workspace, 'locked', 'rules.txt'), 'v1\n')
+        await writeFile(join(workspace, '.env'), 'SECRET=1\n')
+        await agent.client.query('Go').result()
+
+        await writeFile(join(workspace, 'locked', 'rules.txt'), 'v2\n')
+        await writeFile(join(workspace, '.env'), 'SECRET=2\n')
+        expect(await agent.client.diffCheckpoint(created[0].checkpointId)).toEqual([])
+
+        await agent.client.restoreCheckpoint(created[0].checkpointId)
+        expect(await readFile(join(workspace, 'locked', 'rules.txt'), 'utf8')).toBe('v2\n')
+        expect(await readFile(join(workspace, '.env'), 'utf8')).toBe('SECRET=2\n')
+    } finally {
+        await agent.stop()
+    }
+})
+
+test('refuses to restore while a turn is running', async () => {
+    let release = () => {}
+    const agent = await createTestAgent({
+        script: [
+            [{ text: 'First' }],
+            async () => {
+                await new Promise<void>(resolve => {
+                    release = resolve
+                })
+                return [{ text: 'Second' }]
+            },
+        ],
+    })
+    try {
+        const created = collectCheckpoints(agent)
+        await agent.client.query('One').result()
+        const running = agent.client.query('Two')
+        while (created.length < 2) await new Promise(resolve => setTimeout(resolve, 10))
+
+        const error = await agent.client.restoreCheckpoint(created[0].checkpointId).catch(err => err)
+        expect(error.code).toBe('turn_in_progress')
+        release()
+        await running.result()
+    } finally {
+        await agent.stop()
+    }
+})
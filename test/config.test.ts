@@ -0,0 +1,80 @@
+import { expect, test } from 'bun:test'
+
+import { computeSignature, createAuthHeaders, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../src/auth'
+import { REDACTED } from '../src/config-validation'
+import { createTestAgent, type TestAgent } from '../src/testing'
+
+const SECRET = 'config-secret'
+const BODY = JSON.stringify({ anthropicApiKey: 'test-key', model: 'claude-sonnet-4-5' })
+
+function postConfig(agent: TestAgent, body: string, headers: Record<string, string> = {}) {
+    return fetch(`${agent.server.url}/config`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+    })
+}
+
+test('requires the shared secret on /config', async () => {
+    const agent = await createTestAgent({ auth: { secret: SECRET } })
+    try {
+        expect((await postConfig(agent, BODY)).status).toBe(401)
+        expect((await postConfig(agent, BODY, { 'x-castari-secret': 'wrong' })).status).toBe(401)
+        const response = await postConfig(agent, BODY, { 'x-castari-secret': SECRET })
+        expect(response.status).toBe(200)
+        expect(await response.json()).toMatchObject({ config: { anthropicApiKey: REDACTED } })
+    } finally {
+        await agent.stop()
+    }
+})
+
+test('checks signatures over the method, path, timestamp and body', async () => {
+    const agent = await createTestAgent({
+        auth: { secret: SECRET, requireSignature: true },
+        client: { signConfigRequests: true },
+    })
+    try {
+        expect((await postConfig(agent, BODY, { 'x-castari-secret': SECRET })).status).toBe(401)
+
+        const signed = await createAuthHeaders(SECRET, 'POST', '/config', BODY, true)
+        expect((await postConfig(agent, BODY, signed)).status).toBe(200)
+
+        const otherBody = JSON.stringify({ anthropicApiKey: 'other-key' })
+        expect((await postConfig(agent, otherBody, signed)).status).toBe(401)
+
+        const otherPath = await createAuthHeaders(SECRET, 'POST', '/reconnect', BODY, true)
+        expect((await postConfig(agent, BODY, otherPath)).status).toBe(401)
+
+        const stale = String(Date.now() - 10 * 60 * 1000)
+        const staleSignature = await computeSignature(SECRET, stale, 'POST', '/config', BODY)
+        const staleHeaders = { [TIMESTAMP_HEADER]: stale, [SIGNATURE_HEADER]: staleSignature }
+        expect((await postConfig(agent, BODY, staleHeaders)).status).toBe(401)
+    } finally {
+        await agent.stop()
+    }
+})
+
+test('rejects invalid configs with the offending fields', async () => {
+    const agent = await createTestAgent()
+    try {
+        const invalidJson = await postConfig(agent, '{')
+        expect(invalidJson.status).toBe(400)
+        expect(await invalidJson.json()).toEqual({ error: 'Invalid JSON' })
+
+        const invalid = await postConfig(
+            agent,
+            JSON.stringify({ anthropicApiKey: 'test-key', model: 5, maxTurn: 3, toString: 'x' }),
+        )
+        expect(invalid.status).toBe(400)
+        const { error, fields } = (await invalid.json()) as {
+            error: string
+            fields: { field: string }[]
+        }
+        expect(error).toBe('Invalid config')
+        expect(fields.map(({ field }) => field).sort()).toEqual(['maxTurn', 'model', 'toString'])
+
+        expect((await postConfig(agent, '[]')).status).toBe(400)
+    } finally {
+        await agent.stop()
+    }
+})
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+import { mkdir, mkdtemp, realpath, rm, symlink, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { createPathPolicy } from '../src/path-policy'
+
+let root: string
+let outside: string
+
+beforeEach(async () => {
+    root = await realpath(await mkdtemp(join(tmpdir(), 'castari-policy-')))
+    outside = await realpath(await mkdtemp(join(tmpdir(), 'castari-outside-')))
+    await mkdir(join(root, 'src'))
+    await writeFile(join(root, 'src', 'index.ts'), '')
+    await writeFile(join(outside, 'secret.txt'), 'secret')
+})
+
+afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+    await rm(outside, { recursive: true, force: true })
+})
+
+test('resolves paths inside the workspace', async () => {
+    const policy = createPathPolicy(root)
+    expect(await policy.resolve('src/index.ts', 'read')).toBe(join(root, 'src', 'index.ts'))
+    expect(await policy.resolve('src/../new/file.txt', 'write')).toBe(join(root, 'new', 'file.txt'))
+    expect(policy.toRelative(join(root, 'src', 'index.ts'))).toBe('src/index.ts')
+})
+
+test('rejects paths that escape the workspace', async () => {
+    const policy = createPathPolicy(root)
+    await expect(policy.resolve('../secret.txt', 'read')).rejects.toMatchObject({
+        code: 'path_outside_workspace',
+    })
+    await expect(policy.resolve('src/../../secret.txt', 'write')).rejects.toMatchObject({
+        code: 'path_outside_workspace',
+    })
+})
+
+test('rejects symlinks that lead outside the workspace', async () => {
+    await symlink(outside, join(root, 'linked'))
+    await symlink(join(outside, 'missing.txt'), join(root, 'dangling.txt'))
+    const policy = createPathPolicy(root)
+    await expect(policy.resolve('linked/secret.txt', 'read')).rejects.toMatchObject({
+        code: 'path_outside_workspace',
+    })
+    // A dangling link must not let a write create a file outside
+    await expect(policy.resolve('dangling.txt', 'write')).rejects.toMatchObject({
+        code: 'path_outside_workspace',
+    })
+})
+
+test('denies matching paths, including through symlinks and the state directory', async () => {
+    await writeFile(join(root, '.env'), 'KEY=1')
+    await mkdir(join(root, 'config', 'secrets'), { recursive: true })
+    await symlink(join(root, '.env'), join(root, 'env-link'))
+    const policy = createPathPolicy(root, { deniedPaths: ['.env', 'config/secrets/**'] })
+
+    for (const path of ['.env', 'env-link', 'config/secrets', 'config/secrets/key.pem', '.castari/x']) {
+        await expect(policy.resolve(path, 'read')).rejects.toMatchObject({ code: 'path_denied' })
+    }
+    expect(policy.isDenied('nested/.env')).toBe(true)
+    expect(policy.isDenied('config/public.txt')).toBe(false)
+})
+
+test('allows reads but rejects writes under read-only paths', async () => {
+    const policy = createPathPolicy(root, { readOnlyPaths: ['src/**'] })
+    expect(await policy.resolve('src/index.ts', 'read')).toBe(join(root, 'src', 'index.ts'))
+    await expect(policy.resolve('src/index.ts', 'write')).rejects.toMatchObject({
+        code: 'path_read_only',
+    })
+    await expect(policy.resolve('src', 'write')).rejects.toMatchObject({ code: 'path_read_only' })
+    expect(await policy.resolve('docs/readme.md', 'write')).toBe(join(root, 'docs', 'readme.md'))
+})
@@ -0,0 +1,84 @@
+import { expect, test } from 'bun:test'
+
+import { createTestAgent } from '../src/testing'
+
+// An agent whose first turn runs until `release()`, so later prompts stay queued
+async function blockedAgent() {
+    let release = () => {}
+    let started = () => {}
+    const turnStarted = new Promise<void>(resolve => {
+        started = resolve
+    })
+    const agent = await createTestAgent({
+        script: [
+            async () => {
+                started()
+                await new Promise<void>(resolve => {
+                    release = resolve
+                })
+                return [{ text: 'First' }]
+            },
+            [{ text: 'Next' }],
+        ],
+    })
+    return { agent, turnStarted, release: () => release() }
+}
+
+test('cancels a queued message but not the running one', async () => {
+    const { agent, turnStarted, release } = await blockedAgent()
+    try {
+        const running = agent.client.query('One')
+        await turnStarted
+        const queued = agent.client.query('Two')
+        const kept = agent.client.query('Three')
+
+        const queue = await agent.client.listQueue()
+        expect(queue).toMatchObject([
+            { messageId: queued.messageId, position: 1, preview: 'Two' },
+            { messageId: kept.messageId, position: 2, preview: 'Three' },
+        ])
+
+        await agent.client.cancelMessage(queued.messageId)
+        expect(await queued.result().catch(err => err.code)).toBe('cancelled')
+        // Neither a cancelled message nor the running one can be cancelled
+        for (const messageId of [queued.messageId, running.messageId]) {
+            const error = await agent.client.cancelMessage(messageId).catch(err => err)
+            expect(error.code).toBe('message_not_found')
+        }
+
+        const status = await agent.client.getStatus()
+        expect(status.session).toMatchObject({
+            busy: true,
+            currentMessageId: running.messageId,
+            queueDepth: 1,
+        })
+
+        release()
+        expect((await running.result()).text).toBe('First')
+        expect((await kept.result()).text).toBe('Next')
+    } finally {
+        await agent.stop()
+    }
+})
+
+test('clears every queued message', async () => {
+    const { agent, turnStarted, release } = await blockedAgent()
+    try {
+        const running = agent.client.query('One')
+        await turnStarted
+        const queued = [agent.client.query('Two'), agent.client.query('Three')]
+
+        expect(await agent.client.clearQueue()).toEqual(queued.map(stream => stream.messageId))
+        for (const stream of queued) {
+            expect(await stream.result().catch(err => err.code)).toBe('cancelled')
+        }
+        expect(await agent.client.listQueue()).toEqual([])
+
+        release()
+        expect((await running.result()).text).toBe('First')
+        const status = await agent.client.getStatus()
+        expect(status.session).toMatchObject({ busy: false, currentMessageId: null, queueDepth: 0 })
+    } finally {
+        await agent.stop()
+    }
+})
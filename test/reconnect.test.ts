@@ -0,0 +1,102 @@
+import { expect, test } from 'bun:test'
+
+import { createSession } from '../src/session-tickets'
+import { createTestAgent, type TestAgent } from '../src/testing'
+import { type SessionTicket, type WSOutputMessage } from '../src/types'
+
+type Sequenced = WSOutputMessage & { seq?: number }
+
+// A bare WebSocket that records every frame, so replays can be checked message by message
+async function openSocket(wsUrl: string, params: Record<string, string>) {
+    const ws = new WebSocket(`${wsUrl}?${new URLSearchParams(params)}`)
+    const received: Sequenced[] = []
+    const waiters: (() => void)[] = []
+    ws.addEventListener('message', event => {
+        received.push(JSON.parse(String(event.data)))
+        for (const wake of waiters.splice(0)) wake()
+    })
+    await new Promise((resolve, reject) => {
+        ws.addEventListener('open', resolve)
+        ws.addEventListener('error', reject)
+    })
+    return {
+        ws,
+        received,
+        async waitFor(count: number) {
+            while (received.length < count) await new Promise<void>(wake => waiters.push(wake))
+            return received.slice(0, count)
+        },
+    }
+}
+
+async function startSession(agent: TestAgent): Promise<SessionTicket> {
+    return createSession({ connectionUrl: agent.server.url, anthropicApiKey: 'test-key' })
+}
+
+function reconnect(agent: TestAgent, body: unknown) {
+    return fetch(`${agent.server.url}/reconnect`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    })
+}
+
+test('issues connection tokens only for the session reconnect token', async () => {
+    const agent = await createTestAgent()
+    try {
+        const ticket = await startSession(agent)
+        const { sessionId } = ticket
+        expect((await reconnect(agent, { sessionId, reconnectToken: 'wrong' })).status).toBe(401)
+        expect((await reconnect(agent, { sessionId })).status).toBe(401)
+        const unknown = await reconnect(agent, {
+            sessionId: 'unknown',
+            reconnectToken: ticket.reconnectToken,
+        })
+        expect(unknown.status).toBe(401)
+
+        const response = await reconnect(agent, { sessionId, reconnectToken: ticket.reconnectToken })
+        expect(response.status).toBe(200)
+        const { connectionToken } = (await response.json()) as { connectionToken: string }
+        const socket = await openSocket(ticket.wsUrl, { token: connectionToken })
+        const [connected] = await socket.waitFor(1)
+        expect(connected.type).toBe('connected')
+        socket.ws.close()
+    } finally {
+        await agent.stop()
+    }
+})
+
+test('replays the messages sent after lastSeq on reconnect', async () => {
+    const agent = await createTestAgent()
+    try {
+        const ticket = await startSession(agent)
+        const first = await openSocket(ticket.wsUrl, { token: ticket.connectionToken })
+        await first.waitFor(1)
+        for (const requestId of ['r1', 'r2', 'r3']) {
+            first.ws.send(JSON.stringify({ type: 'get_status', requestId }))
+        }
+        const replies = (await first.waitFor(4)).slice(1)
+        expect(replies.map(reply => reply.seq)).toEqual([1, 2, 3])
+        // Not a normal closure, so the session waits for the client to come back
+        first.ws.close(3000, 'Network lost')
+
+        const response = await reconnect(agent, {
+            sessionId: ticket.sessionId,
+            reconnectToken: ticket.reconnectToken,
+        })
+        const { connectionToken } = (await response.json()) as { connectionToken: string }
+        const second = await openSocket(ticket.wsUrl, { token: connectionToken, lastSeq: '1' })
+        const [connected, ...replayed] = await second.waitFor(3)
+        expect(connected).toMatchObject({
+            type: 'connected',
+            replay: { fromSeq: 1, count: 2, dropped: 0 },
+        })
+        expect(replayed).toMatchObject([
+            { type: 'status', requestId: 'r2', seq: 2 },
+            { type: 'status', requestId: 'r3', seq: 3 },
+        ])
+        second.ws.close()
+    } finally {
+        await agent.stop()
+    }
+})
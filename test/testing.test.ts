@@ -0,0 +1,69 @@
+import { expect, test } from 'bun:test'
+import { tool } from '@anthropic-ai/claude-agent-sdk'
+import { z } from 'zod'
+
+import { CastariClient } from '../src/client'
+import { silentLogger } from '../src/logger'
+import { createTestAgent } from '../src/testing'
+
+const weatherTool = tool(
+    'get_weather',
+    'Get the weather for a city',
+    { city: z.string() },
+    async ({ city }) => ({ content: [{ type: 'text', text: `The weather in ${city} is sunny.` }] }),
+)
+
+test('plays a scripted turn through the server and client', async () => {
+    const agent = await createTestAgent({
+        tools: [weatherTool],
+        script: [[{ toolUse: 'get_weather', input: { city: 'Paris' } }, { text: 'It is sunny.' }]],
+    })
+    try {
+        const stream = agent.client.query('Weather in Paris?')
+        const toolResults: unknown[] = []
+        for await (const message of stream) {
+            if (message.type === 'user' && Array.isArray(message.message.content)) {
+                toolResults.push(...message.message.content)
+            }
+        }
+        const result = await stream.result()
+        expect(result.text).toBe('It is sunny.')
+        expect(toolResults).toEqual([
+            expect.objectContaining({
+                type: 'tool_result',
+                content: [{ type: 'text', text: 'The weather in Paris is sunny.' }],
+            }),
+        ])
+
+        // No turn left: the next message gets an error result
+        const missing = await agent.client.query('And tomorrow?').result()
+        expect(missing.isError).toBe(true)
+        expect(missing.subtype).toBe('error_during_execution')
+    } finally {
+        await agent.stop()
+    }
+})
+
+test('plays the script from the start for each session', async () => {
+    const agent = await createTestAgent({
+        script: [[{ text: 'first' }], [{ text: 'second' }]],
+    })
+    const other = new CastariClient({
+        anthropicApiKey: 'test',
+        logger: silentLogger,
+        connectionUrl: agent.server.url,
+    })
+    try {
+        await other.start()
+        const [mine, theirs] = await Promise.all([
+            agent.client.query('Hello').result(),
+            other.query('Hello').result(),
+        ])
+        expect(mine.text).toBe('first')
+        expect(theirs.text).toBe('first')
+        expect((await agent.client.query('Again').result()).text).toBe('second')
+    } finally {
+        await other.stop()
+        await agent.stop()
+    }
+})
@@ -0,0 +1,49 @@
+import { expect, test } from 'bun:test'
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+
+import { createTestAgent } from '../src/testing'
+
+const API_KEY = 'sk-ant-test-transcript-key'
+
+test('redacts the API key from recorded config changes', async () => {
+    const agent = await createTestAgent({ auth: { secret: 'shh' } })
+    try {
+        await agent.client.updateConfig({ anthropicApiKey: API_KEY })
+        const entries = await agent.client.getTranscript()
+        expect(entries.some(entry => entry.message.type === 'update_config')).toBe(true)
+        expect(JSON.stringify(entries)).not.toContain(API_KEY)
+
+        const sessionId = agent.client.getSessionId()!
+        await agent.server.stop()
+        const file = await readFile(
+            join(agent.workspaceDirectory, '.castari', 'transcripts', `${sessionId}.jsonl`),
+            'utf8',
+        )
+        expect(file).not.toContain(API_KEY)
+    } finally {
+        await agent.stop()
+    }
+})
+
+test('serves /transcript only with the server secret', async () => {
+    const secured = await createTestAgent({ auth: { secret: 'shh' }, script: [[{ text: 'Hi' }]] })
+    const open = await createTestAgent()
+    try {
+        await secured.client.query('Hello').result()
+        const path = `/transcript?sessionId=${secured.client.getSessionId()}`
+        expect((await fetch(`${secured.server.url}${path}`)).status).toBe(401)
+        const authorized = await fetch(`${secured.server.url}${path}`, {
+            headers: { 'x-castari-secret': 'shh' },
+        })
+        expect(authorized.status).toBe(200)
+
+        const unauthenticated = await fetch(
+            `${open.server.url}/transcript?sessionId=${open.client.getSessionId()}`,
+        )
+        expect(unauthenticated.status).toBe(403)
+    } finally {
+        await secured.stop()
+        await open.stop()
+    }
+})
@@ -0,0 +1,140 @@
+import { expect, test } from 'bun:test'
+import { createHash } from 'crypto'
+import { mkdtemp, readFile, rm, symlink, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { createTestAgent, type TestAgent } from '../src/testing'
+import { type WSInputMessage, type WSOutputMessage } from '../src/types'
+
+const encoder = new TextEncoder()
+
+// Send raw transfer messages and collect the replies for one transfer ID
+function rawTransfer(agent: TestAgent, transferId: string) {
+    const replies: WSOutputMessage[] = []
+    agent.client.onMessage(message => {
+        const id =
+            'transferId' in message
+                ? message.transferId
+                : 'requestId' in message
+                    ? message.requestId
+                    : undefined
+        if (id === transferId) replies.push(message)
+    })
+    const next = async (type: WSOutputMessage['type']) => {
+        for (let waited = 0; waited < 2000; waited += 10) {
+            const index = replies.findIndex(reply => reply.type === type)
+            if (index >= 0) return replies.splice(index, 1)[0]
+            await new Promise(resolve => setTimeout(resolve, 10))
+        }
+        throw new Error(`No ${type} for ${transferId}`)
+    }
+    return {
+        send: (message: WSInputMessage) => agent.client.send(message),
+        next,
+    }
+}
+
+const chunk = (transferId: string, offset: number, text: string, checksum?: string): WSInputMessage => {
+    const bytes = encoder.encode(text)
+    return {
+        type: 'upload_chunk',
+        transferId,
+        offset,
+        data: Buffer.from(bytes).toString('base64'),
+        checksum: checksum ?? createHash('sha256').update(bytes).digest('hex'),
+    }
+}
+
+test('uploads and downloads a file in chunks', async () => {
+    const agent = await createTestAgent()
+    try {
+        const content = 'x'.repeat(1000)
+        await agent.client.upload('data/big.txt', new Blob([content]).stream(), {
+            chunkSize: 64,
+            totalBytes: content.length,
+        })
+        expect(await readFile(join(agent.workspaceDirectory, 'data/big.txt'), 'utf8')).toBe(content)
+        const downloaded = await new Response(
+            agent.client.download('data/big.txt', { chunkSize: 64, offset: 900 }),
+        ).text()
+        expect(downloaded).toBe(content.slice(900))
+    } finally {
+        await agent.stop()
+    }
+})
+
+test('resumes a partial upload from the bytes the server holds', async () => {
+    const agent = await createTestAgent()
+    try {
+        const first = rawTransfer(agent, 't1')
+        first.send({ type: 'upload_begin', transferId: 't1', path: 'notes.txt' })
+        await first.next('transfer_ready')
+        first.send(chunk('t1', 0, 'Hello, '))
+        await first.next('transfer_progress')
+        first.send({ type: 'transfer_cancel', transferId: 't1' })
+
+        const second = rawTransfer(agent, 't2')
+        second.send({
+            type: 'upload_begin',
+            transferId: 't2',
+            path: 'notes.txt',
+            resume: true,
+            totalBytes: 13,
+        })
+        const ready = await second.next('transfer_ready')
+        expect(ready).toMatchObject({ offset: 7 })
+        second.send(chunk('t2', 7, 'world!'))
+        await second.next('transfer_progress')
+        second.send({ type: 'upload_end', transferId: 't2' })
+        await second.next('transfer_complete')
+        expect(await readFile(join(agent.workspaceDirectory, 'notes.txt'), 'utf8')).toBe('Hello, world!')
+    } finally {
+        await agent.stop()
+    }
+})
+
+test('rejects a chunk whose checksum does not match', async () => {
+    const agent = await createTestAgent()
+    try {
+        const transfer = rawTransfer(agent, 't1')
+        transfer.send({ type: 'upload_begin', transferId: 't1', path: 'bad.txt' })
+        await transfer.next('transfer_ready')
+        transfer.send(chunk('t1', 0, 'payload', '0'.repeat(64)))
+        expect(await transfer.next('error')).toMatchObject({ code: 'transfer_checksum_mismatch' })
+    } finally {
+        await agent.stop()
+    }
+})
+
+test('refuses a partial file that is a symlink out of the workspace', async () => {
+    const agent = await createTestAgent()
+    const outside = await mkdtemp(join(tmpdir(), 'castari-outside-'))
+    try {
+        const victim = join(outside, 'victim.txt')
+        await writeFile(victim, 'original')
+        await symlink(victim, join(agent.workspaceDirectory, 'upload.txt.castari-partial'))
+
+        const error = await agent.client
+            .upload('upload.txt', new Blob(['PWNED']).stream(), { resume: true })
+            .catch(err => err)
+        expect(error.code).toBe('path_outside_workspace')
+        expect(await readFile(victim, 'utf8')).toBe('original')
+    } finally {
+        await agent.stop()
+        await rm(outside, { recursive: true, force: true })
+    }
+})
+
+test('rejects a transfer ID that is already in use', async () => {
+    const agent = await createTestAgent()
+    try {
+        const transfer = rawTransfer(agent, 't1')
+        transfer.send({ type: 'upload_begin', transferId: 't1', path: 'a.txt' })
+        await transfer.next('transfer_ready')
+        transfer.send({ type: 'upload_begin', transferId: 't1', path: 'b.txt' })
+        expect(await transfer.next('error')).toMatchObject({ code: 'transfer_in_progress' })
+    } finally {
+        await agent.stop()
+    }
+})